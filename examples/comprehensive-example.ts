@@ -1,4 +1,4 @@
-import { JulesClient } from '../src';
+import { JulesClient, JulesApiError } from '../src';
 
 /**
  * Comprehensive example demonstrating all Jules API SDK methods
@@ -204,9 +204,12 @@ async function comprehensiveExample() {
     
     // In a real scenario, you would:
     // 1. Wait for Jules to generate a plan
+    //    await client.waitForSessionState(approvalSession.id, 'AWAITING_PLAN_APPROVAL', { timeoutMs: 10 * 60 * 1000 });
     // 2. Review the plan activities
     // 3. Call approvePlan() to proceed
-    // await client.approvePlan(approvalSession.id!);
+    //    await client.approvePlan(approvalSession.id);
+    // 4. Wait for the result (rejects with SessionFailedError if Jules gives up)
+    //    const done = await client.waitForCompletion(approvalSession.id, { timeoutMs: 60 * 60 * 1000 });
 
     // ========================================
     // SUMMARY
@@ -226,10 +229,9 @@ async function comprehensiveExample() {
 
   } catch (error) {
     console.error('\n❌ Error occurred:', error instanceof Error ? error.message : String(error));
-    if (error && typeof error === 'object' && 'response' in error) {
-      const axiosError = error as any;
-      console.error('   Status:', axiosError.response?.status);
-      console.error('   Data:', JSON.stringify(axiosError.response?.data, null, 2));
+    if (error instanceof JulesApiError) {
+      console.error('   Status:', error.httpStatus, error.status);
+      console.error('   Details:', JSON.stringify(error.details, null, 2));
     }
     process.exit(1);
   }
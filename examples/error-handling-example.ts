@@ -7,9 +7,18 @@
  * 3. Timeout configuration
  * 4. Comprehensive logging
  * 5. Error recovery patterns
+ * 6. Typed API errors
  */
 
-import { JulesClient, LoggerInterface } from '../src';
+import {
+  JulesClient,
+  LoggerInterface,
+  JulesApiError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitedError,
+  DeadlineExceededError,
+} from '../src';
 
 // Example logger implementation
 class ConsoleLogger implements LoggerInterface {
@@ -93,7 +102,7 @@ async function main() {
     const sessions = await timeoutClient.listSessions();
     console.log('✅ Sessions retrieved:', sessions.sessions?.length || 0);
   } catch (error: any) {
-    if (error.code === 'ECONNABORTED') {
+    if (error instanceof DeadlineExceededError) {
       console.error('❌ Request timed out after 15 seconds');
     } else {
       console.error('❌ Request failed:', error.message);
@@ -138,6 +147,10 @@ async function main() {
     try {
       return await basicClient.getSession(sessionId);
     } catch (error: any) {
+      // A missing session will not show up in the list either
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
       console.log('⚠️  Primary request failed, trying fallback...');
       
       // Fallback: Try listing all sessions and find it
@@ -224,8 +237,32 @@ async function main() {
   console.log('   - Main request fails: returns error state');
   console.log('   - Sub-request fails: returns partial data');
 
-  // Example 7: Monitoring and alerting
-  console.log('\n=== Example 7: Monitoring Integration ===\n');
+  // Example 7: Typed API errors
+  console.log('\n=== Example 7: Typed API Errors ===\n');
+
+  try {
+    await basicClient.getSession('does-not-exist');
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      console.log('🔍 Session not found:', error.message);
+    } else if (error instanceof PermissionDeniedError) {
+      console.log('🔒 API key cannot access this session');
+    } else if (error instanceof RateLimitedError) {
+      console.log(`⏳ Rate limited, retry in ${error.retryAfterMs ?? 'unknown'} ms`);
+    } else if (error instanceof JulesApiError) {
+      // Every API failure carries the gRPC status, HTTP status, request and retry count
+      console.log('❌ API error:', {
+        status: error.status,
+        httpStatus: error.httpStatus,
+        request: `${error.method} ${error.url}`,
+        retries: error.retryCount,
+        details: error.details,
+      });
+    }
+  }
+
+  // Example 8: Monitoring and alerting
+  console.log('\n=== Example 8: Monitoring Integration ===\n');
 
   class MonitoringLogger implements LoggerInterface {
     private errorCount = 0;
@@ -283,6 +320,7 @@ async function main() {
   console.log('✅ Enable logging for debugging');
   console.log('✅ Implement circuit breakers for external dependencies');
   console.log('✅ Use graceful degradation for better UX');
+  console.log('✅ Branch on typed errors (NotFoundError, RateLimitedError, ...) instead of HTTP codes');
   console.log('✅ Monitor error rates and set up alerts');
   console.log('✅ The SDK handles rate limiting (429) automatically');
   console.log('✅ Network errors and 5xx responses are auto-retried');
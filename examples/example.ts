@@ -1,4 +1,4 @@
-import { JulesClient } from '../src';
+import { JulesClient, JulesApiError } from '../src';
 
 /**
  * Basic example showing common Jules API SDK usage
@@ -64,10 +64,9 @@ async function example() {
 
   } catch (error) {
     console.error('❌ Error:', error instanceof Error ? error.message : String(error));
-    if (error && typeof error === 'object' && 'response' in error) {
-      const axiosError = error as any;
-      console.error('Response status:', axiosError.response?.status);
-      console.error('Response data:', axiosError.response?.data);
+    if (error instanceof JulesApiError) {
+      console.error('Response status:', error.httpStatus, error.status);
+      console.error('Error details:', error.details);
     }
   }
 }
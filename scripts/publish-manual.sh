@@ -30,6 +30,7 @@ bun run build
 
 # Run tests
 echo "🧪 Step 3: Running tests..."
+bun run typecheck
 bun run test:run
 
 # Publish to npm
@@ -0,0 +1,54 @@
+import type { Activity, ActivityKind, ActivityOf, UnknownActivity } from './schemas/activities';
+
+/**
+ * One handler per activity kind; omitting a kind is a compile-time error
+ */
+export type ActivityHandlers<R> = {
+  [K in ActivityKind]: (activity: ActivityOf<K>) => R;
+} & {
+  unknown: (activity: UnknownActivity) => R; // Kinds added to the API after this SDK version
+};
+
+/**
+ * Call the handler matching the activity's kind and return its result
+ */
+export function matchActivity<R>(activity: Activity, handlers: ActivityHandlers<R>): R {
+  const handler = handlers[activity.kind] as (activity: Activity) => R;
+  return handler(activity);
+}
+
+export function isActivityKind<K extends ActivityKind>(activity: Activity, kind: K): activity is Extract<Activity, { kind: K }> {
+  return activity.kind === kind;
+}
+
+export function isAgentMessaged(activity: Activity): activity is ActivityOf<'agentMessaged'> {
+  return activity.kind === 'agentMessaged';
+}
+
+export function isUserMessaged(activity: Activity): activity is ActivityOf<'userMessaged'> {
+  return activity.kind === 'userMessaged';
+}
+
+export function isPlanGenerated(activity: Activity): activity is ActivityOf<'planGenerated'> {
+  return activity.kind === 'planGenerated';
+}
+
+export function isPlanApproved(activity: Activity): activity is ActivityOf<'planApproved'> {
+  return activity.kind === 'planApproved';
+}
+
+export function isProgressUpdated(activity: Activity): activity is ActivityOf<'progressUpdated'> {
+  return activity.kind === 'progressUpdated';
+}
+
+export function isSessionCompleted(activity: Activity): activity is ActivityOf<'sessionCompleted'> {
+  return activity.kind === 'sessionCompleted';
+}
+
+export function isSessionFailed(activity: Activity): activity is ActivityOf<'sessionFailed'> {
+  return activity.kind === 'sessionFailed';
+}
+
+export function isUnknownActivity(activity: Activity): activity is UnknownActivity {
+  return activity.kind === 'unknown';
+}
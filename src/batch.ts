@@ -0,0 +1,48 @@
+import { throwIfAborted } from './abort';
+import type { RequestOptions } from './http';
+
+export interface BatchOptions extends RequestOptions {
+  concurrency?: number; // Requests in flight at once (Default: 5)
+  signal?: AbortSignal; // Aborts requests in flight; items not started are rejected with AbortError
+}
+
+/**
+ * Outcome of one item of a batch, in the shape of Promise.allSettled()
+ */
+export type BatchResult<T> =
+  | { id: string; status: 'fulfilled'; value: T }
+  | { id: string; status: 'rejected'; reason: unknown };
+
+/**
+ * Run `fetch` for every id with at most `concurrency` calls in flight
+ * Never rejects: each id gets its own result, in the order of `ids`
+ */
+export async function settleBatch<T>(
+  ids: readonly string[],
+  fetch: (id: string) => Promise<T>,
+  options: BatchOptions = {}
+): Promise<BatchResult<T>[]> {
+  const concurrency = options.concurrency ?? 5;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError('concurrency must be a positive integer');
+  }
+
+  const results = new Array<BatchResult<T>>(ids.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < ids.length) {
+      const index = next++;
+      const id = ids[index];
+      try {
+        throwIfAborted(options.signal);
+        results[index] = { id, status: 'fulfilled', value: await fetch(id) };
+      } catch (reason) {
+        results[index] = { id, status: 'rejected', reason };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, ids.length) }, worker));
+  return results;
+}
@@ -0,0 +1,341 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { HttpRequest, HttpResponse, LoggerInterface } from './http';
+import { isTerminalState } from './session-state';
+import type { SessionState } from './schemas/sessions';
+
+/**
+ * Cacheable responses, by the call that produces them
+ * - sources: listSources()
+ * - source: getSource()
+ * - session: getSession()
+ * - activities: listActivities()
+ * - activity: getActivity()
+ */
+export type CacheResource = 'sources' | 'source' | 'session' | 'activities' | 'activity';
+
+export interface CachedResponse {
+  key: string; // Account scope and request URL with its query string, e.g. "9f86d081884c7d65:/sessions/123/activities?pageSize=50"
+  resource: CacheResource;
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+  etag?: string; // ETag response header, if the API sent one
+  storedAt: number; // Epoch ms
+  expiresAt: number | null; // Epoch ms, null for entries that never expire
+}
+
+/**
+ * Storage backend for ResponseCache; entries are plain JSON
+ */
+export interface CacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface CacheOptions {
+  store?: CacheStore; // Default: a MemoryCacheStore with 1000 entries
+  ttlMs?: Partial<Record<CacheResource, number>>; // 0 disables caching of a resource, Infinity never expires
+  /**
+   * Called on every hit; return false to discard the entry and fetch it again,
+   * e.g. when its etag or updateTime is older than what a change feed reported
+   */
+  revalidate?: (entry: CachedResponse) => boolean | Promise<boolean>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  invalidations: number; // Entries removed by invalidate(), mutations and revalidate
+  resources: Record<CacheResource, { hits: number; misses: number }>;
+}
+
+/**
+ * Sessions and their activities change until the session is terminal, so they are only cached
+ * once it is (with no expiry); give them a TTL to cache them while still in progress
+ */
+export const DEFAULT_CACHE_TTLS: Record<CacheResource, number> = {
+  sources: 300000,
+  source: 300000,
+  session: 0,
+  activities: 0,
+  activity: Infinity, // An activity never changes once it exists
+};
+
+const RESOURCE_ROUTES: Record<string, CacheResource> = {
+  '/sources': 'sources',
+  '/sources/{sourceId}': 'source',
+  '/sessions/{sessionId}': 'session',
+  '/sessions/{sessionId}/activities': 'activities',
+  '/sessions/{sessionId}/activities/{activityId}': 'activity',
+};
+
+const SESSION_URL = /^\/sessions\/([^/:?]+)/;
+
+/**
+ * In-memory store that evicts the least recently used entry once full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CachedResponse>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark it as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * Store keeping one JSON file per entry in a directory, so the cache survives restarts
+ * and can be shared by processes on the same machine
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    return this.read(this.file(key));
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    const target = this.file(entry.key);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    try {
+      // Written to a temporary file and renamed, so readers never see a partial entry
+      await fs.promises.writeFile(temporary, JSON.stringify(entry));
+      await fs.promises.rename(temporary, target);
+    } catch (error) {
+      await fs.promises.rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.file(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    const names = await fs.promises.readdir(this.directory).catch(() => [] as string[]);
+    const entries = await Promise.all(
+      names.filter(name => name.endsWith('.json')).map(name => this.read(path.join(this.directory, name)))
+    );
+    return entries.filter((entry): entry is CachedResponse => entry !== undefined).map(entry => entry.key);
+  }
+
+  // Keys hold page tokens and filters, so they are hashed into file names
+  private file(key: string): string {
+    return path.join(this.directory, `${crypto.createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async read(file: string): Promise<CachedResponse | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    } catch {
+      // Missing or corrupt entries are treated as misses
+      return undefined;
+    }
+  }
+}
+
+function emptyStats(): CacheStats {
+  const resources = {} as CacheStats['resources'];
+  (Object.keys(DEFAULT_CACHE_TTLS) as CacheResource[]).forEach(resource => {
+    resources[resource] = { hits: 0, misses: 0 };
+  });
+  return { hits: 0, misses: 0, invalidations: 0, resources };
+}
+
+function isTerminalSession(data: unknown): boolean {
+  const state = (data as { state?: SessionState } | undefined)?.state;
+  return state !== undefined && isTerminalState(state);
+}
+
+/**
+ * Keys are scoped to the API key that made the request, so a cache shared by clients
+ * with different keys (or a JulesClientPool) never serves one account's data to another
+ */
+function accountScope(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+// Strips the account scope from a key
+function keyUrl(key: string): string {
+  return key.slice(key.indexOf(':') + 1);
+}
+
+function cacheKey(scope: string, request: HttpRequest): string {
+  const query = new URLSearchParams();
+  Object.keys(request.params ?? {})
+    .sort()
+    .forEach(key => {
+      const value = request.params![key];
+      if (value !== undefined) query.append(key, String(value));
+    });
+  const search = query.toString();
+  return `${scope}:${request.url}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Caches GET responses for sources, sessions and activities
+ * Terminal sessions (COMPLETED / FAILED) and their activities are kept without expiry.
+ * Mutating a session (approvePlan, sendMessage) invalidates its cached responses.
+ * Pass the same instance to several clients to share the cache between them;
+ * entries are only served to requests made with the same API key
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly ttlMs: Record<CacheResource, number>;
+  private counters = emptyStats();
+
+  constructor(
+    private readonly options: CacheOptions = {},
+    private readonly logger?: LoggerInterface
+  ) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttlMs = { ...DEFAULT_CACHE_TTLS, ...options.ttlMs };
+  }
+
+  /**
+   * Serve a request from the cache, or send it and cache the response
+   * @param apiKey - The key the request is sent with, only its hash is kept
+   */
+  async handle(
+    request: HttpRequest,
+    send: (request: HttpRequest) => Promise<HttpResponse>,
+    apiKey: string
+  ): Promise<HttpResponse> {
+    const sessionId = SESSION_URL.exec(request.url)?.[1];
+    if (request.method !== 'GET') {
+      const response = await send(request);
+      if (sessionId) {
+        await this.invalidate(`/sessions/${sessionId}`);
+      }
+      return response;
+    }
+
+    const resource = request.route ? RESOURCE_ROUTES[request.route] : undefined;
+    if (!resource) {
+      return send(request);
+    }
+
+    const scope = accountScope(apiKey);
+    const key = cacheKey(scope, request);
+    const cached = await this.lookup(key);
+    if (cached) {
+      this.counters.hits += 1;
+      this.counters.resources[resource].hits += 1;
+      this.logger?.debug('Serving response from cache', { url: request.url, resource });
+      return { status: cached.status, headers: { ...cached.headers }, data: cached.data, retryCount: 0 };
+    }
+    this.counters.misses += 1;
+    this.counters.resources[resource].misses += 1;
+
+    const response = await send(request);
+    const ttlMs = await this.ttlFor(resource, response.data, scope, sessionId);
+    if (ttlMs > 0) {
+      const now = Date.now();
+      await this.store.set({
+        key,
+        resource,
+        status: response.status,
+        headers: response.headers,
+        data: response.data,
+        etag: response.headers.etag,
+        storedAt: now,
+        expiresAt: ttlMs === Infinity ? null : now + ttlMs,
+      });
+    }
+    return response;
+  }
+
+  /**
+   * Drop a cached URL together with everything below it, for every account,
+   * e.g. invalidate('/sessions/123') also drops the session's activities
+   * @returns The number of entries removed
+   */
+  async invalidate(url: string): Promise<number> {
+    const keys = (await this.store.keys()).filter(key => {
+      const keyed = keyUrl(key);
+      return keyed === url || keyed.startsWith(`${url}/`) || keyed.startsWith(`${url}?`);
+    });
+    await Promise.all(keys.map(key => this.store.delete(key)));
+    this.counters.invalidations += keys.length;
+    return keys.length;
+  }
+
+  /**
+   * Drop every cached entry
+   */
+  async clear(): Promise<void> {
+    const keys = await this.store.keys();
+    await Promise.all(keys.map(key => this.store.delete(key)));
+    this.counters.invalidations += keys.length;
+  }
+
+  /**
+   * Hit, miss and invalidation counters since creation (or the last resetStats())
+   */
+  stats(): CacheStats {
+    return JSON.parse(JSON.stringify(this.counters));
+  }
+
+  resetStats(): void {
+    this.counters = emptyStats();
+  }
+
+  private async lookup(key: string): Promise<CachedResponse | undefined> {
+    const entry = await this.store.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+    if (this.options.revalidate && !(await this.options.revalidate(entry))) {
+      await this.store.delete(key);
+      this.counters.invalidations += 1;
+      return undefined;
+    }
+    return entry;
+  }
+
+  private async ttlFor(resource: CacheResource, data: unknown, scope: string, sessionId?: string): Promise<number> {
+    if (resource === 'session' && isTerminalSession(data)) {
+      return Infinity;
+    }
+    if (resource === 'activities' && sessionId) {
+      // The activity list of a terminal session is final; known once the session itself was cached as terminal
+      const session = await this.store.get(`${scope}:/sessions/${sessionId}`);
+      if (session && isTerminalSession(session.data)) {
+        return Infinity;
+      }
+    }
+    return this.ttlMs[resource];
+  }
+}
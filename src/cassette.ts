@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CassetteMissError } from './errors';
+import type { Transport, TransportRequest, TransportResponse } from './transports';
+
+/**
+ * - record: perform real requests and append them to the cassette
+ * - replay: answer from the cassette only, never touching the network
+ * - auto: replay when the cassette file exists, record otherwise
+ */
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+export interface CassetteOptions {
+  path: string; // JSON file holding the recorded interactions
+  mode?: CassetteMode; // Default: 'auto'
+}
+
+export interface CassetteRequest {
+  method: string;
+  url: string; // Relative to the base URL, without query string
+  params?: Record<string, string>; // Query string parameters
+  body?: unknown;
+}
+
+export interface CassetteResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown; // Parsed JSON, or the raw text when the body is not JSON
+}
+
+export interface CassetteEntry {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface Cassette {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+const REDACTED = '[REDACTED]';
+const OMITTED_RESPONSE_HEADERS = ['set-cookie'];
+
+function parseBody(data: string | undefined): unknown {
+  if (!data) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+// Stable JSON with sorted keys so semantically equal params and bodies match
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function requestKey(request: CassetteRequest): string {
+  return `${request.method} ${request.url} ${canonical(request.params)} ${canonical(request.body)}`;
+}
+
+function toCassetteRequest(request: TransportRequest, baseUrl: string): CassetteRequest {
+  const [target, query = ''] = request.url.split('?');
+  const url = target.startsWith(baseUrl) ? target.slice(baseUrl.length) : target;
+  const params: Record<string, string> = {};
+  new URLSearchParams(query).forEach((value, key) => {
+    params[key] = value;
+  });
+  return {
+    method: request.method,
+    url,
+    params: Object.keys(params).length > 0 ? params : undefined,
+    body: parseBody(request.body),
+  };
+}
+
+/**
+ * Records and replays HTTP interactions by wrapping a Transport
+ * Identical requests are replayed in recording order; once exhausted the last response repeats,
+ * so polling loops see the final recorded state
+ */
+export class CassetteRecorder {
+  readonly mode: 'record' | 'replay';
+  private readonly cassette: Cassette;
+  private readonly replayed = new Map<string, number>();
+
+  constructor(
+    private readonly options: CassetteOptions,
+    private readonly baseUrl: string,
+    private readonly secrets: string[] = []
+  ) {
+    const mode = options.mode ?? 'auto';
+    this.mode = mode === 'auto' ? (fs.existsSync(options.path) ? 'replay' : 'record') : mode;
+    this.cassette = this.mode === 'replay'
+      ? JSON.parse(fs.readFileSync(options.path, 'utf8'))
+      : { version: 1, entries: [] };
+  }
+
+  get entries(): readonly CassetteEntry[] {
+    return this.cassette.entries;
+  }
+
+  /**
+   * Wrap a transport; `next` performs the real requests while recording and is never called in replay mode
+   */
+  transport(next: Transport): Transport {
+    return {
+      request: async request => {
+        if (this.mode === 'record') {
+          // Keys can change between requests (credential providers, key pools), so learn each one as it is used
+          const apiKey = request.headers['X-Goog-Api-Key'];
+          if (apiKey && !this.secrets.includes(apiKey)) {
+            this.secrets.push(apiKey);
+          }
+          // Only the cassette is redacted, the caller gets the real response
+          const response = await next.request(request);
+          this.record(this.redact(toCassetteRequest(request, this.baseUrl)), response);
+          return response;
+        }
+        // Replay sends a placeholder key, which must not be redacted from the request
+        const response = this.replay(this.redact(toCassetteRequest(request, this.baseUrl)));
+        return {
+          status: response.status,
+          headers: { ...response.headers },
+          body: response.body === undefined ? '' : typeof response.body === 'string' ? response.body : JSON.stringify(response.body),
+        };
+      },
+    };
+  }
+
+  private replay(request: CassetteRequest): CassetteResponse {
+    const key = requestKey(request);
+    const matches = this.cassette.entries.filter(entry => requestKey(entry.request) === key);
+    if (matches.length === 0) {
+      throw new CassetteMissError(request.method, request.url, this.options.path);
+    }
+    const index = this.replayed.get(key) ?? 0;
+    this.replayed.set(key, index + 1);
+    return matches[Math.min(index, matches.length - 1)].response;
+  }
+
+  private record(request: CassetteRequest, res: TransportResponse): void {
+    const headers: Record<string, string> = {};
+    Object.entries(res.headers).forEach(([name, value]) => {
+      if (!OMITTED_RESPONSE_HEADERS.includes(name.toLowerCase())) {
+        headers[name.toLowerCase()] = value;
+      }
+    });
+
+    const response = this.redact({ status: res.status, headers, body: parseBody(res.body) });
+    this.cassette.entries.push({ request, response });
+    fs.mkdirSync(path.dirname(this.options.path), { recursive: true });
+    fs.writeFileSync(this.options.path, JSON.stringify(this.cassette, null, 2) + '\n');
+  }
+
+  // Replace API keys (and any other secret) wherever they appear
+  private redact<T>(value: T): T {
+    const secrets = this.secrets.filter(Boolean);
+    if (secrets.length === 0) return value;
+    let json = JSON.stringify(value);
+    for (const secret of secrets) {
+      json = json.split(JSON.stringify(secret).slice(1, -1)).join(REDACTED);
+    }
+    return JSON.parse(json);
+  }
+}
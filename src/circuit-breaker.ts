@@ -0,0 +1,142 @@
+import { CircuitOpenError, TransportError } from './errors';
+import type { LoggerInterface } from './http';
+import type { TransportResponse } from './transports';
+
+/**
+ * - closed: requests flow, outcomes are tracked
+ * - open: requests fail fast with CircuitOpenError until resetTimeoutMs has passed
+ * - half-open: a few probe requests decide whether to close or re-open the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Failure rate (0-1) that opens the circuit, default: 0.5
+  minimumRequests?: number; // Requests in the window before the rate is considered, default: 10
+  windowMs?: number; // Rolling window for the failure rate, default: 60000
+  resetTimeoutMs?: number; // Time open before probing, default: 30000
+  halfOpenProbes?: number; // Concurrent probe requests while half-open, default: 1
+  failureStatuses?: number[]; // HTTP statuses counted as failures, default: [500, 502, 503, 504]
+}
+
+interface Circuit {
+  state: CircuitState;
+  outcomes: Array<{ time: number; failed: boolean }>;
+  openedAt: number;
+  probes: number; // Probes in flight while half-open
+}
+
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+  failureThreshold: 0.5,
+  minimumRequests: 10,
+  windowMs: 60000,
+  resetTimeoutMs: 30000,
+  halfOpenProbes: 1,
+  failureStatuses: [500, 502, 503, 504],
+};
+
+/**
+ * Tracks the failure rate of each endpoint and stops sending requests to endpoints that keep failing
+ * Network errors and failureStatuses count as failures; every other response counts as a success.
+ * Pass the same instance to several clients to share circuit state between them
+ */
+export class CircuitBreaker {
+  private readonly options: Required<CircuitBreakerOptions>;
+  private readonly circuits = new Map<string, Circuit>();
+
+  constructor(options: CircuitBreakerOptions = {}, private readonly logger?: LoggerInterface) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Current state of an endpoint's circuit, e.g. state('GET /sessions/{sessionId}')
+   */
+  state(endpoint: string): CircuitState {
+    const circuit = this.circuits.get(endpoint);
+    if (circuit?.state === 'open' && Date.now() - circuit.openedAt >= this.options.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return circuit?.state ?? 'closed';
+  }
+
+  /**
+   * Send one attempt through the endpoint's circuit
+   * @throws CircuitOpenError without calling `attempt` while the circuit is open
+   */
+  async run(endpoint: string, attempt: () => Promise<TransportResponse>): Promise<TransportResponse> {
+    const { circuit, probe } = this.acquire(endpoint);
+    let failed: boolean | undefined;
+    try {
+      const response = await attempt();
+      failed = this.options.failureStatuses.includes(response.status);
+      return response;
+    } catch (error) {
+      // Aborts and other non-network errors say nothing about the endpoint's health
+      failed = error instanceof TransportError ? true : undefined;
+      throw error;
+    } finally {
+      this.record(endpoint, circuit, probe, failed);
+    }
+  }
+
+  private acquire(endpoint: string): { circuit: Circuit; probe: boolean } {
+    let circuit = this.circuits.get(endpoint);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], openedAt: 0, probes: 0 };
+      this.circuits.set(endpoint, circuit);
+    }
+
+    if (circuit.state === 'open') {
+      const remainingMs = circuit.openedAt + this.options.resetTimeoutMs - Date.now();
+      if (remainingMs > 0) {
+        throw new CircuitOpenError(endpoint, remainingMs);
+      }
+      this.transition(endpoint, circuit, 'half-open');
+    }
+    if (circuit.state === 'half-open') {
+      if (circuit.probes >= this.options.halfOpenProbes) {
+        throw new CircuitOpenError(endpoint, 0);
+      }
+      circuit.probes += 1;
+      return { circuit, probe: true };
+    }
+    return { circuit, probe: false };
+  }
+
+  private record(endpoint: string, circuit: Circuit, probe: boolean, failed: boolean | undefined): void {
+    if (probe) {
+      circuit.probes -= 1;
+      if (failed !== undefined && circuit.state === 'half-open') {
+        this.transition(endpoint, circuit, failed ? 'open' : 'closed');
+      }
+      return;
+    }
+    if (failed === undefined || circuit.state !== 'closed') {
+      return;
+    }
+
+    const now = Date.now();
+    circuit.outcomes = circuit.outcomes.filter(outcome => now - outcome.time < this.options.windowMs);
+    circuit.outcomes.push({ time: now, failed });
+
+    const failures = circuit.outcomes.filter(outcome => outcome.failed).length;
+    if (
+      circuit.outcomes.length >= this.options.minimumRequests &&
+      failures / circuit.outcomes.length >= this.options.failureThreshold
+    ) {
+      this.transition(endpoint, circuit, 'open', { failures, requests: circuit.outcomes.length });
+    }
+  }
+
+  private transition(endpoint: string, circuit: Circuit, state: CircuitState, meta: object = {}): void {
+    circuit.state = state;
+    if (state === 'open') {
+      circuit.openedAt = Date.now();
+      this.logger?.warn('Circuit breaker opened', { endpoint, resetTimeoutMs: this.options.resetTimeoutMs, ...meta });
+    } else if (state === 'half-open') {
+      this.logger?.info('Circuit breaker half-open, probing', { endpoint });
+    } else {
+      circuit.outcomes = [];
+      this.logger?.info('Circuit breaker closed', { endpoint });
+    }
+  }
+}
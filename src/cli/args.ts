@@ -0,0 +1,69 @@
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+// Flags that never take a value
+const BOOLEAN_FLAGS = new Set(['json', 'ndjson', 'help', 'require-approval', 'auto-pr']);
+
+/**
+ * Minimal argv parser: `--flag value`, `--flag=value`, boolean `--flag`, and `--` to end flags
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === '-h') {
+      flags.help = true;
+      continue;
+    }
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    const name = arg.slice(2, eq === -1 ? undefined : eq);
+    if (eq !== -1) {
+      flags[name] = arg.slice(eq + 1);
+    } else if (BOOLEAN_FLAGS.has(name) || i + 1 >= argv.length || argv[i + 1].startsWith('--')) {
+      flags[name] = true;
+    } else {
+      flags[name] = argv[++i];
+    }
+  }
+
+  return { positionals, flags };
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') {
+    throw new UsageError(`--${name} requires a value`);
+  }
+  return value;
+}
+
+export function numberFlag(args: ParsedArgs, name: string): number | undefined {
+  const value = stringFlag(args, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  return parsed;
+}
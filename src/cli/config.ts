@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface CliConfig {
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export const API_KEY_ENV = 'JULES_API_KEY';
+export const CONFIG_PATH_ENV = 'JULES_CONFIG';
+
+export function defaultConfigPath(env: NodeJS.ProcessEnv): string {
+  const base = env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, 'jules', 'config.json');
+}
+
+/**
+ * Resolve CLI configuration; precedence: flags > environment > config file
+ * The config file is `--config`, $JULES_CONFIG or ~/.config/jules/config.json
+ */
+export function loadConfig(
+  env: NodeJS.ProcessEnv,
+  overrides: { configPath?: string; baseUrl?: string } = {}
+): CliConfig {
+  const explicitPath = overrides.configPath ?? (env[CONFIG_PATH_ENV] || undefined);
+  const configPath = explicitPath ?? defaultConfigPath(env);
+
+  let fileConfig: CliConfig = {};
+  if (fs.existsSync(configPath)) {
+    try {
+      fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Invalid config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else if (explicitPath) {
+    throw new Error(`Config file not found: ${configPath}`);
+  }
+
+  return {
+    apiKey: env[API_KEY_ENV] || fileConfig.apiKey,
+    baseUrl: overrides.baseUrl ?? fileConfig.baseUrl,
+  };
+}
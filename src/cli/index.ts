@@ -0,0 +1,274 @@
+#!/usr/bin/env node
+import { JulesClient, JulesClientOptions } from '../client';
+import { AbortError, JulesApiError } from '../errors';
+import { parseArgs, ParsedArgs, UsageError, stringFlag, numberFlag } from './args';
+import { loadConfig, API_KEY_ENV } from './config';
+import { Printer, OutputMode, Column } from './output';
+import { matchActivity } from '../activity';
+import type { Activity, Session, Source, CreateSessionRequest } from '../types';
+import type { SessionWatchEvent } from '../watcher';
+
+export interface CliDeps {
+  env: NodeJS.ProcessEnv;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  createClient: (options: JulesClientOptions) => JulesClient;
+  signal?: AbortSignal; // Cancels long-running commands such as `sessions watch`
+}
+
+const USAGE = `Usage: jules <resource> <command> [options]
+
+Sources:
+  jules sources list [--filter <expr>] [--limit <n>]
+  jules sources get <sourceId>
+
+Sessions:
+  jules sessions create --source <name> --prompt <text> [--branch <name>] [--title <text>]
+                        [--require-approval] [--auto-pr]
+  jules sessions list [--limit <n>]
+  jules sessions get <sessionId>
+  jules sessions watch <sessionId>
+  jules sessions approve <sessionId>
+  jules sessions message <sessionId> <prompt>
+
+Activities:
+  jules activities list <sessionId> [--limit <n>]
+  jules activities get <sessionId> <activityId>
+
+Options:
+  --json                  Print JSON
+  --ndjson                Print one JSON document per line
+  --output <mode>         table (default), json or ndjson
+  --config <path>         Config file (default: $JULES_CONFIG or ~/.config/jules/config.json)
+  --base-url <url>        Override the API base URL
+  -h, --help              Show this help
+
+The API key is read from $${API_KEY_ENV} or the "apiKey" field of the config file.
+`;
+
+const SOURCE_COLUMNS: Column<Source>[] = [
+  { header: 'id', value: s => s.id },
+  { header: 'name', value: s => s.name },
+  { header: 'repo', value: s => (s.githubRepo ? `${s.githubRepo.owner}/${s.githubRepo.repo}` : undefined) },
+  { header: 'defaultBranch', value: s => s.githubRepo?.defaultBranch?.displayName },
+];
+
+const SESSION_COLUMNS: Column<Session>[] = [
+  { header: 'id', value: s => s.id },
+  { header: 'state', value: s => s.state },
+  { header: 'title', value: s => s.title },
+  { header: 'updated', value: s => s.updateTime },
+];
+
+const SESSION_DETAIL_COLUMNS: Column<Session>[] = [
+  ...SESSION_COLUMNS,
+  { header: 'source', value: s => s.sourceContext.source },
+  { header: 'prompt', value: s => s.prompt },
+  { header: 'url', value: s => s.url },
+  { header: 'pullRequest', value: s => s.outputs?.find(output => output.pullRequest)?.pullRequest?.url },
+];
+
+const ACTIVITY_COLUMNS: Column<Activity>[] = [
+  { header: 'id', value: a => a.id },
+  { header: 'created', value: a => a.createTime },
+  { header: 'originator', value: a => a.originator },
+  { header: 'type', value: a => a.kind },
+  { header: 'summary', value: a => activitySummary(a) },
+];
+
+const ACTIVITY_DETAIL_COLUMNS: Column<Activity>[] = [
+  ...ACTIVITY_COLUMNS,
+  { header: 'description', value: a => a.description },
+  { header: 'artifacts', value: a => (a.artifacts?.length ? String(a.artifacts.length) : undefined) },
+];
+
+function activitySummary(activity: Activity): string | undefined {
+  return matchActivity<string | undefined>(activity, {
+    agentMessaged: a => a.agentMessaged.agentMessage,
+    userMessaged: a => a.userMessaged.userMessage,
+    planGenerated: a => `${a.planGenerated.plan.steps?.length ?? 0} steps`,
+    planApproved: a => `plan ${a.planApproved.planId}`,
+    progressUpdated: a => a.progressUpdated.title ?? a.progressUpdated.description,
+    sessionCompleted: a => a.description,
+    sessionFailed: a => a.sessionFailed.reason,
+    unknown: a => a.description,
+  });
+}
+
+function formatWatchEvent(event: SessionWatchEvent): string | undefined {
+  switch (event.type) {
+    case 'stateChanged':
+      return `state: ${event.previousState ? `${event.previousState} -> ` : ''}${event.state}`;
+    case 'userMessaged':
+      return `user: ${event.message}`;
+    case 'agentMessaged':
+      return `agent: ${event.message}`;
+    case 'planGenerated':
+      return ['plan generated:', ...(event.plan.steps ?? []).map(step => `  ${step.index + 1}. ${step.title}`)].join('\n');
+    case 'planApproved':
+      return `plan approved: ${event.planId}`;
+    case 'progressUpdated':
+      return `progress: ${event.title ?? ''}${event.description ? ` - ${event.description}` : ''}`;
+    case 'sessionCompleted':
+      return 'session completed';
+    case 'sessionFailed':
+      return `session failed${event.reason ? `: ${event.reason}` : ''}`;
+    case 'activity':
+      return undefined; // Every activity is also reported through its specific event
+  }
+}
+
+function outputMode(args: ParsedArgs): OutputMode {
+  if (args.flags.json) return 'json';
+  if (args.flags.ndjson) return 'ndjson';
+  const mode = stringFlag(args, 'output') ?? 'table';
+  if (mode !== 'table' && mode !== 'json' && mode !== 'ndjson') {
+    throw new UsageError(`Unknown output mode: ${mode}`);
+  }
+  return mode;
+}
+
+function requirePositional(args: ParsedArgs, index: number, name: string): string {
+  const value = args.positionals[index];
+  if (!value) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+async function runCommand(args: ParsedArgs, client: JulesClient, printer: Printer, signal?: AbortSignal): Promise<number> {
+  const [resource, command] = args.positionals;
+  const limit = numberFlag(args, 'limit');
+
+  switch (`${resource} ${command}`) {
+    case 'sources list': {
+      const sources = await client.iterateSources({ filter: stringFlag(args, 'filter'), maxItems: limit, signal }).toArray();
+      printer.list(sources, SOURCE_COLUMNS);
+      return 0;
+    }
+    case 'sources get':
+      printer.item(await client.getSource(requirePositional(args, 2, 'sourceId'), { signal }), SOURCE_COLUMNS);
+      return 0;
+
+    case 'sessions create': {
+      const source = stringFlag(args, 'source');
+      const prompt = stringFlag(args, 'prompt');
+      if (!source || !prompt) {
+        throw new UsageError('sessions create requires --source and --prompt');
+      }
+      const branch = stringFlag(args, 'branch');
+      const request: CreateSessionRequest = {
+        prompt,
+        sourceContext: { source, ...(branch ? { githubRepoContext: { startingBranch: branch } } : {}) },
+        title: stringFlag(args, 'title'),
+        requirePlanApproval: args.flags['require-approval'] ? true : undefined,
+        automationMode: args.flags['auto-pr'] ? 'AUTO_CREATE_PR' : undefined,
+      };
+      printer.item(await client.createSession(request, { signal }), SESSION_DETAIL_COLUMNS);
+      return 0;
+    }
+    case 'sessions list':
+      printer.list(await client.iterateSessions({ maxItems: limit, signal }).toArray(), SESSION_COLUMNS);
+      return 0;
+    case 'sessions get':
+      printer.item(await client.getSession(requirePositional(args, 2, 'sessionId'), { signal }), SESSION_DETAIL_COLUMNS);
+      return 0;
+    case 'sessions watch': {
+      let failed = false;
+      for await (const event of client.watchSession(requirePositional(args, 2, 'sessionId'), { signal })) {
+        failed = failed || (event.type === 'stateChanged' && event.state === 'FAILED');
+        const line = formatWatchEvent(event);
+        if (line !== undefined) {
+          printer.record(event, line);
+        }
+      }
+      return failed ? 1 : 0;
+    }
+    case 'sessions approve': {
+      const sessionId = requirePositional(args, 2, 'sessionId');
+      await client.approvePlan(sessionId, { signal });
+      printer.record({ sessionId, action: 'approvePlan' }, `Plan approved for session ${sessionId}`);
+      return 0;
+    }
+    case 'sessions message': {
+      const sessionId = requirePositional(args, 2, 'sessionId');
+      const prompt = stringFlag(args, 'prompt') ?? args.positionals.slice(3).join(' ');
+      if (!prompt) {
+        throw new UsageError('Missing <prompt>');
+      }
+      await client.sendMessage(sessionId, prompt, { signal });
+      printer.record({ sessionId, action: 'sendMessage' }, `Message sent to session ${sessionId}`);
+      return 0;
+    }
+
+    case 'activities list': {
+      const sessionId = requirePositional(args, 2, 'sessionId');
+      printer.list(await client.iterateActivities(sessionId, { maxItems: limit, signal }).toArray(), ACTIVITY_COLUMNS);
+      return 0;
+    }
+    case 'activities get':
+      printer.item(
+        await client.getActivity(requirePositional(args, 2, 'sessionId'), requirePositional(args, 3, 'activityId'), { signal }),
+        ACTIVITY_DETAIL_COLUMNS
+      );
+      return 0;
+
+    default:
+      throw new UsageError(resource ? `Unknown command: ${args.positionals.slice(0, 2).join(' ')}` : 'Missing command');
+  }
+}
+
+/**
+ * Run the CLI and resolve with the process exit code
+ */
+export async function runCli(argv: string[], deps: CliDeps): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+    if (args.flags.help || args.positionals.length === 0) {
+      deps.stdout(USAGE);
+      return 0;
+    }
+
+    const config = loadConfig(deps.env, {
+      configPath: stringFlag(args, 'config'),
+      baseUrl: stringFlag(args, 'base-url'),
+    });
+    if (!config.apiKey) {
+      throw new UsageError(`No API key: set ${API_KEY_ENV} or add "apiKey" to the config file`);
+    }
+
+    const printer = new Printer(outputMode(args), deps.stdout);
+    const client = deps.createClient({ apiKey: config.apiKey, baseUrl: config.baseUrl });
+    return await runCommand(args, client, printer, deps.signal);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      deps.stderr(`Error: ${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (error instanceof JulesApiError) {
+      deps.stderr(`Error: ${error.message} (${error.status}${error.httpStatus ? `, HTTP ${error.httpStatus}` : ''})\n`);
+      return 1;
+    }
+    if (error instanceof AbortError) {
+      return 130;
+    }
+    deps.stderr(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  runCli(process.argv.slice(2), {
+    env: process.env,
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    createClient: options => new JulesClient(options),
+    signal: controller.signal,
+  }).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,64 @@
+export type OutputMode = 'table' | 'json' | 'ndjson';
+
+export interface Column<T> {
+  header: string;
+  value: (row: T) => string | number | undefined;
+}
+
+const MAX_CELL_WIDTH = 60;
+
+function cell(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value).replace(/\s+/g, ' ');
+  return text.length > MAX_CELL_WIDTH ? text.slice(0, MAX_CELL_WIDTH - 1) + '…' : text;
+}
+
+export function renderTable<T>(rows: T[], columns: Column<T>[]): string {
+  const cells = rows.map(row => columns.map(column => cell(column.value(row))));
+  const widths = columns.map((column, i) =>
+    Math.max(column.header.length, ...cells.map(line => line[i].length))
+  );
+  const format = (line: string[]) => line.map((text, i) => text.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [format(columns.map(column => column.header.toUpperCase())), ...cells.map(format)].join('\n') + '\n';
+}
+
+/**
+ * Writes results in the selected output mode
+ */
+export class Printer {
+  constructor(
+    readonly mode: OutputMode,
+    private readonly write: (text: string) => void
+  ) {}
+
+  list<T>(rows: T[], columns: Column<T>[]): void {
+    if (this.mode === 'json') {
+      this.write(JSON.stringify(rows, null, 2) + '\n');
+    } else if (this.mode === 'ndjson') {
+      rows.forEach(row => this.write(JSON.stringify(row) + '\n'));
+    } else {
+      this.write(rows.length > 0 ? renderTable(rows, columns) : 'No results\n');
+    }
+  }
+
+  item<T>(value: T, columns: Column<T>[]): void {
+    if (this.mode === 'json') {
+      this.write(JSON.stringify(value, null, 2) + '\n');
+    } else if (this.mode === 'ndjson') {
+      this.write(JSON.stringify(value) + '\n');
+    } else {
+      const width = Math.max(...columns.map(column => column.header.length));
+      columns.forEach(column => {
+        const text = column.value(value);
+        if (text !== undefined && text !== '') {
+          this.write(`${column.header.padEnd(width)}  ${text}\n`);
+        }
+      });
+    }
+  }
+
+  /** Streamed records (e.g. watch events) are always one per line */
+  record(value: unknown, line: string): void {
+    this.write(this.mode === 'table' ? line + '\n' : JSON.stringify(value) + '\n');
+  }
+}
@@ -0,0 +1,255 @@
+import { JulesClient, JulesClientOptions } from './client';
+import { JulesApiError, NotFoundError, PermissionDeniedError, RateLimitedError } from './errors';
+import { isQuotaExhausted } from './grpc-status';
+import { DEFAULT_RETRY_CONFIG, HttpResponse, LoggerInterface } from './http';
+import type { Middleware } from './middleware';
+
+export interface PoolKey {
+  id: string; // Stable name used for rotation, stats and logs (never the key itself)
+  apiKey: string;
+  account?: string; // Keys of the same account can see each other's sessions (Default: 'default', shared by keys without one)
+}
+
+/**
+ * - round-robin: cycle through the available keys
+ * - least-loaded: pick the key with the fewest requests in flight
+ */
+export type PoolStrategy = 'round-robin' | 'least-loaded';
+
+export interface JulesClientPoolOptions extends Omit<JulesClientOptions, 'apiKey' | 'credentials'> {
+  keys: Array<string | PoolKey>; // Plain strings get the ids "key-0", "key-1", ...
+  strategy?: PoolStrategy; // Default: 'round-robin'
+  cooldownMs?: number; // How long a rate-limited key is skipped without Retry-After (Default: 60000)
+}
+
+export interface PoolKeyStats {
+  id: string;
+  account: string;
+  inFlight: number;
+  requests: number;
+  rateLimited: number;
+  coolingDownUntil?: number; // Epoch ms
+}
+
+interface PoolMember extends PoolKeyStats {
+  apiKey: string;
+}
+
+const SESSION_URL = /^\/sessions\/([^/:]+)/;
+const MAX_SESSION_AFFINITY = 10000;
+const DEFAULT_ACCOUNT = 'default';
+
+/**
+ * Picks an API key per request, fails over on rate limits and pins sessions to their account
+ * A session of unknown account that one account cannot see (404 / 403) is tried on the others
+ */
+class KeyRouter {
+  private readonly members = new Map<string, PoolMember>();
+  private readonly sessionAccounts = new Map<string, string>();
+  private cursor = 0;
+
+  constructor(
+    keys: Array<string | PoolKey>,
+    private readonly strategy: PoolStrategy,
+    private readonly cooldownMs: number,
+    private readonly logger?: LoggerInterface
+  ) {
+    keys.forEach((key, index) => this.add(typeof key === 'string' ? { id: `key-${index}`, apiKey: key } : key));
+  }
+
+  add(key: PoolKey): void {
+    if (this.members.has(key.id)) {
+      throw new Error(`Pool already has a key with id ${key.id}`);
+    }
+    this.members.set(key.id, { id: key.id, apiKey: key.apiKey, account: key.account ?? DEFAULT_ACCOUNT, inFlight: 0, requests: 0, rateLimited: 0 });
+  }
+
+  remove(id: string): void {
+    this.get(id);
+    if (this.members.size === 1) {
+      throw new Error('Cannot remove the last key of a pool');
+    }
+    this.members.delete(id);
+  }
+
+  rotate(id: string, apiKey: string): void {
+    const member = this.get(id);
+    member.apiKey = apiKey;
+    member.coolingDownUntil = undefined;
+    this.logger?.info('API key rotated', { key: id });
+  }
+
+  stats(): PoolKeyStats[] {
+    return [...this.members.values()].map(({ apiKey: _apiKey, ...stats }) => ({ ...stats }));
+  }
+
+  get firstKey(): string {
+    return this.members.values().next().value!.apiKey;
+  }
+
+  middleware(): Middleware {
+    return async (request, next) => {
+      const sessionId = SESSION_URL.exec(request.url)?.[1];
+      const account = sessionId ? this.sessionAccounts.get(sessionId) : undefined;
+      const tried = new Set<string>();
+      const missedAccounts = new Set<string>(); // Accounts that cannot see the session
+      let lastError: unknown;
+
+      for (;;) {
+        const member = this.pick(account, tried, missedAccounts);
+        if (!member) {
+          throw lastError;
+        }
+        tried.add(member.id);
+        member.inFlight += 1;
+        member.requests += 1;
+        try {
+          const response = await next({ ...request, headers: { ...request.headers, 'X-Goog-Api-Key': member.apiKey } });
+          this.learnSessions(request.method, sessionId, response, member.account);
+          return response;
+        } catch (error) {
+          // Quota errors are not always 429s: a 403 can carry a quota reason in its details
+          const quotaExhausted = error instanceof JulesApiError && isQuotaExhausted(error.status, error.details);
+          if (sessionId && !account && !quotaExhausted && (error instanceof NotFoundError || error instanceof PermissionDeniedError)) {
+            missedAccounts.add(member.account);
+            this.logger?.debug('Session not visible to account, trying another', {
+              key: member.id,
+              account: member.account,
+              url: request.url,
+            });
+            lastError = error;
+            continue;
+          }
+          if (!quotaExhausted) {
+            throw error;
+          }
+          const retryAfterMs = error instanceof RateLimitedError ? error.retryAfterMs : undefined;
+          member.rateLimited += 1;
+          member.coolingDownUntil = Date.now() + (retryAfterMs ?? this.cooldownMs);
+          this.logger?.warn('API key rate limited, failing over', {
+            key: member.id,
+            url: request.url,
+            cooldownMs: member.coolingDownUntil - Date.now(),
+          });
+          lastError = error;
+        } finally {
+          member.inFlight -= 1;
+        }
+      }
+    };
+  }
+
+  private get(id: string): PoolMember {
+    const member = this.members.get(id);
+    if (!member) {
+      throw new Error(`Pool has no key with id ${id}`);
+    }
+    return member;
+  }
+
+  /**
+   * Next key to try: untried keys of the session's account (any account not yet missed if unknown),
+   * preferring keys that are not cooling down; undefined once every candidate was tried
+   */
+  private pick(account: string | undefined, tried: Set<string>, missedAccounts: Set<string>): PoolMember | undefined {
+    const candidates = [...this.members.values()].filter(
+      m => !tried.has(m.id) && (account ? m.account === account : !missedAccounts.has(m.account))
+    );
+    if (candidates.length === 0) {
+      return undefined;
+    }
+    const now = Date.now();
+    const ready = candidates.filter(m => !m.coolingDownUntil || m.coolingDownUntil <= now);
+    if (ready.length === 0) {
+      // Everything is cooling down: the key that recovers first is the best bet
+      return candidates.reduce((a, b) => (a.coolingDownUntil! <= b.coolingDownUntil! ? a : b));
+    }
+
+    if (this.strategy === 'least-loaded') {
+      return ready.reduce((a, b) => (b.inFlight < a.inFlight || (b.inFlight === a.inFlight && b.requests < a.requests) ? b : a));
+    }
+    const member = ready[this.cursor % ready.length];
+    this.cursor += 1;
+    return member;
+  }
+
+  // Remember which account owns the sessions a key could see
+  private learnSessions(method: string, sessionId: string | undefined, response: HttpResponse, account: string): void {
+    const data = response.data as { id?: unknown; sessions?: Array<{ id?: unknown }> } | undefined;
+    const ids = sessionId
+      ? [sessionId]
+      : method === 'POST' ? [data?.id] : (data?.sessions ?? []).map(session => session.id);
+
+    for (const id of ids) {
+      if (typeof id !== 'string') continue;
+      this.sessionAccounts.delete(id);
+      this.sessionAccounts.set(id, account);
+      if (this.sessionAccounts.size > MAX_SESSION_AFFINITY) {
+        this.sessionAccounts.delete(this.sessionAccounts.keys().next().value!);
+      }
+    }
+  }
+}
+
+/**
+ * A JulesClient that spreads requests over several API keys or accounts
+ * Each call is routed round-robin or to the least-loaded key. A key that is rate limited
+ * (429 / RESOURCE_EXHAUSTED) cools down while the call fails over to the next key.
+ * Calls about a session stay on keys of the account that owns it; sessions the pool has not
+ * seen yet are tried on each account until one can see them.
+ * Keys can be rotated, added and removed while requests are in flight.
+ */
+export class JulesClientPool extends JulesClient {
+  private readonly router: KeyRouter;
+
+  constructor(options: JulesClientPoolOptions) {
+    const { keys, strategy = 'round-robin', cooldownMs = 60000, ...clientOptions } = options;
+    if (keys.length === 0) {
+      throw new Error('JulesClientPool needs at least one API key');
+    }
+    const router = new KeyRouter(keys, strategy, cooldownMs, clientOptions.logger);
+    const retryableStatuses = clientOptions.retryConfig?.retryableStatuses ?? DEFAULT_RETRY_CONFIG.retryableStatuses;
+
+    super({
+      ...clientOptions,
+      apiKey: router.firstKey,
+      // Fail over to another key right away instead of retrying the rate-limited one
+      retryConfig: { ...clientOptions.retryConfig, retryableStatuses: retryableStatuses.filter(status => status !== 429) },
+      middleware: [router.middleware(), ...(clientOptions.middleware ?? [])],
+    });
+    this.router = router;
+  }
+
+  /**
+   * Replace the API key with the given id; requests already in flight keep the old key
+   * @param id - Key id
+   * @param apiKey - New API key
+   */
+  rotateKey(id: string, apiKey: string): void {
+    this.router.rotate(id, apiKey);
+  }
+
+  /**
+   * Add an API key to the pool
+   * @param key - Key id, API key and optional account
+   */
+  addKey(key: PoolKey): void {
+    this.router.add(key);
+  }
+
+  /**
+   * Remove an API key from the pool
+   * @param id - Key id
+   */
+  removeKey(id: string): void {
+    this.router.remove(id);
+  }
+
+  /**
+   * Per-key load, request and rate limit counters
+   * @returns PoolKeyStats[]
+   */
+  keyStats(): PoolKeyStats[] {
+    return this.router.stats();
+  }
+}
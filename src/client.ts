@@ -1,9 +1,27 @@
-import { createHttpClient, requestWithValidation, RetryConfig, LoggerInterface } from './http';
-import { CreateSessionRequestSchema, SessionSchema, ListSessionsResponseSchema } from './schemas/sessions';
-import { ListActivitiesResponseSchema, ActivitySchema } from './schemas/activities';
-import { ListSourcesResponseSchema, SourceSchema } from './schemas/sources';
+import { createHttpClient, requestWithValidation, HttpRequest, RequestOptions, RetryConfig, LoggerInterface } from './http';
+import { CreateSessionRequestSchema } from './schemas/sessions';
+import { RESPONSE_SCHEMAS, ResponseSchemas, ValidationMode } from './validation';
+import { Telemetry, TelemetryOptions } from './telemetry';
+import type { RateLimiter, RateLimiterOptions, RequestPriority } from './rate-limiter';
+import type { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker';
+import type { CassetteOptions } from './cassette';
+import type { TransportOption } from './transports';
+import type { Middleware } from './middleware';
+import type { CredentialsProvider } from './credentials';
+import { ResponseCache, CacheOptions } from './cache';
+import { Paginator, PaginationOptions } from './pagination';
+import { settleBatch, BatchOptions, BatchResult } from './batch';
+import { SessionWatcher, WatchSessionOptions } from './watcher';
+import { waitForSessionState, WaitForStateOptions } from './wait';
+import { diffStats, DiffStats } from './diff-stats';
+import { saveSessionMedia, SaveSessionMediaOptions, SavedMedia } from './media';
+import { exportSessionTranscript, TranscriptFormat, TranscriptOptions } from './transcript';
+import { getSessionPatch, applySessionPatch, SessionPatch, ApplyPatchOptions, ApplyPatchResult } from './patches';
+import { runSession, RunSessionHandlers, RunSessionOptions, RunSessionResult } from './run-session';
+import { getLatestPlan, reviewPlan, Plan, PlanApprovalPolicy, PlanReviewResult, ReviewPlanOptions } from './plan-review';
 import type {
   Session,
+  SessionState,
   CreateSessionRequest,
   Activity,
   ListActivitiesResponse,
@@ -13,22 +31,91 @@ import type {
 } from './types';
 
 export interface JulesClientOptions {
-  apiKey: string;
+  apiKey?: string; // Either apiKey or credentials is required
+  credentials?: CredentialsProvider; // Env var, file or callback provider, asked for the key on every request
   baseUrl?: string;
   timeout?: number;
   retryConfig?: RetryConfig;
   logger?: LoggerInterface;
+  validation?: ValidationMode; // Default: 'strict'
+  cassette?: CassetteOptions; // Record real interactions to a file, or replay them offline
+  transport?: TransportOption; // 'axios' (default when installed), 'fetch' or a custom Transport
+  middleware?: Middleware[]; // Wraps every API call, outermost first
+  telemetry?: TelemetryOptions; // OpenTelemetry spans and metrics per call, requires @opentelemetry/api
+  rateLimit?: RateLimiter | RateLimiterOptions; // Client-side throttling; share a RateLimiter across clients
+  circuitBreaker?: CircuitBreaker | CircuitBreakerOptions; // Fail fast with CircuitOpenError on failing endpoints
+  cache?: ResponseCache | CacheOptions; // Cache sources, terminal sessions and activities; share a ResponseCache across clients
+}
+
+/**
+ * Pagination options plus request options applied to every page request
+ */
+export interface IterateOptions extends PaginationOptions, RequestOptions {}
+
+export interface IterateSourcesOptions extends IterateOptions {
+  filter?: string; // AIP-160 filter expression, see listSources()
+}
+
+function pageRequestOptions(options: IterateOptions): RequestOptions {
+  const { pageSize, pageToken, maxItems, ...requestOptions } = options;
+  return requestOptions;
 }
 
 export class JulesClient {
+  readonly cache?: ResponseCache; // Stats and invalidation when the cache option is set
   private httpClient: ReturnType<typeof createHttpClient>;
-  private apiKey: string;
   private logger?: LoggerInterface;
+  private validation: ValidationMode;
+  private telemetry?: Telemetry;
+  private priority?: RequestPriority; // Set on views created by withPriority()
 
   constructor(options: JulesClientOptions) {
-    this.apiKey = options.apiKey;
     this.logger = options.logger;
-    this.httpClient = createHttpClient(options);
+    this.validation = options.validation ?? 'strict';
+    this.telemetry = options.telemetry ? new Telemetry(options.telemetry) : undefined;
+    this.cache = options.cache instanceof ResponseCache
+      ? options.cache
+      : options.cache ? new ResponseCache(options.cache, options.logger) : undefined;
+    this.httpClient = createHttpClient({ ...options, cache: this.cache });
+  }
+
+  private request<T>(config: HttpRequest, schema?: ResponseSchemas<T>, options: RequestOptions = {}): Promise<T> {
+    const { validate, ...perCall } = options;
+    return requestWithValidation(
+      this.httpClient,
+      { priority: this.priority, ...config, ...perCall },
+      schema,
+      this.logger,
+      validate ?? this.validation,
+      this.telemetry
+    );
+  }
+
+  // Polling helpers queue behind interactive calls unless a priority was chosen explicitly
+  private get poller(): JulesClient {
+    return this.priority ? this : this.withPriority('low');
+  }
+
+  /**
+   * Get a view of this client whose requests use the given rate limiter priority
+   * The view shares configuration, middleware and limiter with this client
+   * @param priority - 'high', 'normal' or 'low'
+   * @returns JulesClient
+   */
+  withPriority(priority: RequestPriority): JulesClient {
+    const view = Object.create(this) as JulesClient;
+    view.priority = priority;
+    return view;
+  }
+
+  /**
+   * Add middleware to the end of the chain (innermost, closest to the transport)
+   * @param middleware - Inspects or modifies each request, its response or its error
+   * @returns this, for chaining
+   */
+  use(middleware: Middleware): this {
+    this.httpClient.use(middleware);
+    return this;
   }
 
   /**
@@ -36,49 +123,64 @@ export class JulesClient {
    * @param pageSize - Maximum number of sources to return
    * @param pageToken - Token for pagination
    * @param filter - Optional AIP-160 filter expression (e.g., "name=sources/source1 OR name=sources/source2")
+   * @param options - AbortSignal, timeout, retry, headers and validation for this call
    * @returns Promise<ListSourcesResponse>
    */
-  async listSources(pageSize?: number, pageToken?: string, filter?: string): Promise<ListSourcesResponse> {
+  async listSources(
+    pageSize?: number,
+    pageToken?: string,
+    filter?: string,
+    options?: RequestOptions
+  ): Promise<ListSourcesResponse> {
     const params: any = {};
     if (pageSize) params.pageSize = pageSize;
     if (pageToken) params.pageToken = pageToken;
     if (filter) params.filter = filter;
 
-    return requestWithValidation(
-      this.httpClient,
-      { method: 'GET', url: '/sources', params },
-      ListSourcesResponseSchema,
-      this.logger
-    );
+    return this.request({ method: 'GET', url: '/sources', route: '/sources', params }, RESPONSE_SCHEMAS.listSources, options);
+  }
+
+  /**
+   * Iterate over all sources, following page tokens transparently
+   * @param options - Page size, starting token, maxItems cap, filter and request options for each page
+   * @returns Paginator<Source>
+   */
+  iterateSources(options: IterateSourcesOptions = {}): Paginator<Source> {
+    const { filter, ...iterateOptions } = options;
+    const requestOptions = pageRequestOptions(iterateOptions);
+    return new Paginator(async (pageSize, pageToken) => {
+      const res = await this.listSources(pageSize, pageToken, filter, requestOptions);
+      return { items: res.sources ?? [], nextPageToken: res.nextPageToken };
+    }, options);
   }
 
   /**
    * Get a specific source
    * @param sourceId - The source ID
+   * @param options - AbortSignal, timeout, retry, headers and validation for this call
    * @returns Promise<Source>
    */
-  async getSource(sourceId: string): Promise<Source> {
-    return requestWithValidation(
-      this.httpClient,
-      { method: 'GET', url: `/sources/${sourceId}` },
-      SourceSchema,
-      this.logger
+  async getSource(sourceId: string, options?: RequestOptions): Promise<Source> {
+    return this.request(
+      { method: 'GET', url: `/sources/${sourceId}`, route: '/sources/{sourceId}' },
+      RESPONSE_SCHEMAS.source,
+      options
     );
   }
 
   /**
    * Create a new session
    * @param request - Session creation parameters
+   * @param options - AbortSignal, timeout, retry, headers and validation for this call
    * @returns Promise<Session>
    */
-  async createSession(request: CreateSessionRequest): Promise<Session> {
+  async createSession(request: CreateSessionRequest, options?: RequestOptions): Promise<Session> {
     // Validate request payload before sending
     const validated = CreateSessionRequestSchema.parse(request);
-    return requestWithValidation(
-      this.httpClient,
-      { method: 'POST', url: '/sessions', data: validated },
-      SessionSchema,
-      this.logger
+    return this.request(
+      { method: 'POST', url: '/sessions', route: '/sessions', data: validated },
+      RESPONSE_SCHEMAS.session,
+      options
     );
   }
 
@@ -86,42 +188,148 @@ export class JulesClient {
    * List sessions
    * @param pageSize - Maximum number of sessions to return
    * @param pageToken - Token for pagination
+   * @param options - AbortSignal, timeout, retry, headers and validation for this call
    * @returns Promise<ListSessionsResponse>
    */
-  async listSessions(pageSize?: number, pageToken?: string): Promise<ListSessionsResponse> {
+  async listSessions(pageSize?: number, pageToken?: string, options?: RequestOptions): Promise<ListSessionsResponse> {
     const params: any = {};
     if (pageSize) params.pageSize = pageSize;
     if (pageToken) params.pageToken = pageToken;
 
-    return requestWithValidation(
-      this.httpClient,
-      { method: 'GET', url: '/sessions', params },
-      ListSessionsResponseSchema,
-      this.logger
-    );
+    return this.request({ method: 'GET', url: '/sessions', route: '/sessions', params }, RESPONSE_SCHEMAS.listSessions, options);
+  }
+
+  /**
+   * Iterate over all sessions, following page tokens transparently
+   * @param options - Page size, starting token, maxItems cap and request options for each page
+   * @returns Paginator<Session>
+   */
+  iterateSessions(options: IterateOptions = {}): Paginator<Session> {
+    const requestOptions = pageRequestOptions(options);
+    return new Paginator(async (pageSize, pageToken) => {
+      const res = await this.listSessions(pageSize, pageToken, requestOptions);
+      return { items: res.sessions ?? [], nextPageToken: res.nextPageToken };
+    }, options);
   }
 
   /**
    * Get a specific session
    * @param sessionId - The session ID
+   * @param options - AbortSignal, timeout, retry, headers and validation for this call
    * @returns Promise<Session>
    */
-  async getSession(sessionId: string): Promise<Session> {
-    return requestWithValidation(
-      this.httpClient,
-      { method: 'GET', url: `/sessions/${sessionId}` },
-      SessionSchema,
-      this.logger
+  async getSession(sessionId: string, options?: RequestOptions): Promise<Session> {
+    return this.request(
+      { method: 'GET', url: `/sessions/${sessionId}`, route: '/sessions/{sessionId}' },
+      RESPONSE_SCHEMAS.session,
+      options
     );
   }
 
+  /**
+   * Get several sessions with bounded concurrency
+   * Never rejects: a failed lookup is reported in its own result
+   * @param sessionIds - Session IDs
+   * @param options - Concurrency (default: 5) and the request options of each call
+   * @returns Promise<BatchResult<Session>[]> in the order of sessionIds
+   */
+  async getSessions(sessionIds: readonly string[], options: BatchOptions = {}): Promise<BatchResult<Session>[]> {
+    const { concurrency, ...requestOptions } = options;
+    return settleBatch(sessionIds, id => this.getSession(id, requestOptions), options);
+  }
+
+  /**
+   * Watch a session, polling getSession and listActivities with an adaptive interval
+   * Each activity is emitted once; polling stops when the session reaches a terminal state
+   * @param sessionId - The session ID
+   * @param options - Poll intervals, terminal-state behaviour and request options for each poll
+   * @returns SessionWatcher - an EventEmitter that is also an AsyncIterable of events
+   */
+  watchSession(sessionId: string, options?: WatchSessionOptions): SessionWatcher {
+    return new SessionWatcher(this.poller, sessionId, options);
+  }
+
+  /**
+   * Wait until a session reaches one of the given states
+   * @param sessionId - The session ID
+   * @param states - Target state(s)
+   * @param options - Poll interval, overall timeout and request options for each poll
+   * @returns Promise<Session> - the session in its target state
+   * @throws SessionFailedError if the session fails, WaitTimeoutError on timeout
+   */
+  async waitForSessionState(
+    sessionId: string,
+    states: SessionState | SessionState[],
+    options?: WaitForStateOptions
+  ): Promise<Session> {
+    return waitForSessionState(this.poller, sessionId, states, options);
+  }
+
+  /**
+   * Wait until a session is COMPLETED
+   * @param sessionId - The session ID
+   * @param options - Poll interval, overall timeout and request options for each poll
+   * @returns Promise<Session> - the completed session
+   * @throws SessionFailedError if the session fails, WaitTimeoutError on timeout
+   */
+  async waitForCompletion(sessionId: string, options?: WaitForStateOptions): Promise<Session> {
+    return waitForSessionState(this.poller, sessionId, 'COMPLETED', options);
+  }
+
+  /**
+   * Create a session and drive it to completion, approving plans and answering feedback requests
+   * @param request - Session creation parameters
+   * @param handlers - Plan approval policy (default: approve), feedback callback and event listener
+   * @param options - Overall timeout, poll intervals and request options for each call
+   * @returns Promise<RunSessionResult> - the completed session, its activities, artifacts and pull request
+   * @throws SessionFailedError if the session fails, WaitTimeoutError on timeout
+   */
+  async runSession(
+    request: CreateSessionRequest,
+    handlers?: RunSessionHandlers,
+    options?: RunSessionOptions
+  ): Promise<RunSessionResult> {
+    return runSession(this, request, handlers, options);
+  }
+
   /**
    * Approve the latest plan for a session
    * @param sessionId - The session ID
+   * @param options - AbortSignal, timeout, retry and headers for this call
    * @returns Promise<void>
    */
-  async approvePlan(sessionId: string): Promise<void> {
-    await this.httpClient.post(`/sessions/${sessionId}:approvePlan`);
+  async approvePlan(sessionId: string, options?: RequestOptions): Promise<void> {
+    await this.request(
+      { method: 'POST', url: `/sessions/${sessionId}:approvePlan`, route: '/sessions/{sessionId}:approvePlan' },
+      undefined,
+      options
+    );
+  }
+
+  /**
+   * Get the most recent plan generated for a session
+   * @param sessionId - The session ID
+   * @param options - AbortSignal, timeout, retry, headers and validation for each request
+   * @returns Promise<Plan | undefined> - undefined if no plan has been generated yet
+   */
+  async getLatestPlan(sessionId: string, options?: RequestOptions): Promise<Plan | undefined> {
+    return getLatestPlan(this, sessionId, options);
+  }
+
+  /**
+   * Review the latest plan with a policy, then approve it, reject it with feedback, or defer
+   * @param sessionId - The session ID
+   * @param policy - Decides what to do with the plan
+   * @param options - Approval verification timeout, poll interval and request options for each call
+   * @returns Promise<PlanReviewResult>
+   * @throws PlanNotFoundError if no plan exists, PlanApprovalNotConfirmedError if approval is not confirmed
+   */
+  async reviewPlan(
+    sessionId: string,
+    policy: PlanApprovalPolicy,
+    options?: ReviewPlanOptions
+  ): Promise<PlanReviewResult> {
+    return reviewPlan(this, sessionId, policy, options);
   }
 
   /**
@@ -129,52 +337,158 @@ export class JulesClient {
    * @param sessionId - The session ID
    * @param pageSize - Maximum number of activities to return
    * @param pageToken - Token for pagination
+   * @param options - AbortSignal, timeout, retry, headers and validation for this call
    * @returns Promise<ListActivitiesResponse>
    */
   async listActivities(
     sessionId: string,
     pageSize?: number,
-    pageToken?: string
+    pageToken?: string,
+    options?: RequestOptions
   ): Promise<ListActivitiesResponse> {
     const params: any = {};
     if (pageSize) params.pageSize = pageSize;
     if (pageToken) params.pageToken = pageToken;
 
-    return requestWithValidation(
-      this.httpClient,
-      { method: 'GET', url: `/sessions/${sessionId}/activities`, params },
-      ListActivitiesResponseSchema,
-      this.logger
+    return this.request(
+      { method: 'GET', url: `/sessions/${sessionId}/activities`, route: '/sessions/{sessionId}/activities', params },
+      RESPONSE_SCHEMAS.listActivities,
+      options
     );
   }
 
+  /**
+   * Iterate over all activities of a session, following page tokens transparently
+   * @param sessionId - The session ID
+   * @param options - Page size, starting token, maxItems cap and request options for each page
+   * @returns Paginator<Activity>
+   */
+  iterateActivities(sessionId: string, options: IterateOptions = {}): Paginator<Activity> {
+    const requestOptions = pageRequestOptions(options);
+    return new Paginator(async (pageSize, pageToken) => {
+      const res = await this.listActivities(sessionId, pageSize, pageToken, requestOptions);
+      return { items: res.activities ?? [], nextPageToken: res.nextPageToken };
+    }, options);
+  }
+
   /**
    * Get a specific activity for a session
    * @param sessionId - The session ID
    * @param activityId - The activity ID
+   * @param options - AbortSignal, timeout, retry, headers and validation for this call
    * @returns Promise<Activity>
    */
-  async getActivity(sessionId: string, activityId: string): Promise<Activity> {
-    return requestWithValidation(
-      this.httpClient,
-      { method: 'GET', url: `/sessions/${sessionId}/activities/${activityId}` },
-      ActivitySchema,
-      this.logger
+  async getActivity(sessionId: string, activityId: string, options?: RequestOptions): Promise<Activity> {
+    return this.request(
+      {
+        method: 'GET',
+        url: `/sessions/${sessionId}/activities/${activityId}`,
+        route: '/sessions/{sessionId}/activities/{activityId}',
+      },
+      RESPONSE_SCHEMAS.activity,
+      options
     );
   }
 
+  /**
+   * Get several activities of a session with bounded concurrency
+   * Never rejects: a failed lookup is reported in its own result
+   * @param sessionId - The session ID
+   * @param activityIds - Activity IDs
+   * @param options - Concurrency (default: 5) and the request options of each call
+   * @returns Promise<BatchResult<Activity>[]> in the order of activityIds
+   */
+  async getActivities(
+    sessionId: string,
+    activityIds: readonly string[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult<Activity>[]> {
+    const { concurrency, ...requestOptions } = options;
+    return settleBatch(activityIds, id => this.getActivity(sessionId, id, requestOptions), options);
+  }
+
+  /**
+   * Collect all changeSet artifacts of a session and combine them into one patch
+   * @param sessionId - The session ID
+   * @param options - AbortSignal, timeout, retry, headers and validation for each request
+   * @returns Promise<SessionPatch> - per-file hunks, combined unidiff, base commit and suggested message
+   */
+  async getSessionPatch(sessionId: string, options?: RequestOptions): Promise<SessionPatch> {
+    return getSessionPatch(this, sessionId, options);
+  }
+
+  /**
+   * Summarize the changes of a session: files added, modified, deleted or renamed and line counts
+   * @param sessionId - The session ID
+   * @param options - AbortSignal, timeout, retry, headers and validation for each request
+   * @returns Promise<DiffStats>
+   */
+  async getSessionDiffStats(sessionId: string, options?: RequestOptions): Promise<DiffStats> {
+    return diffStats((await this.getSessionPatch(sessionId, options)).files);
+  }
+
+  /**
+   * Apply the changes of a session to a local git working tree
+   * @param sessionId - The session ID
+   * @param options - Working tree, base commit checkout and commit options
+   * @param requestOptions - AbortSignal, timeout, retry, headers and validation for fetching the patch
+   * @returns Promise<ApplyPatchResult>
+   * @throws PatchApplyError if a git command fails
+   */
+  async applySessionPatch(
+    sessionId: string,
+    options: ApplyPatchOptions,
+    requestOptions?: RequestOptions
+  ): Promise<ApplyPatchResult> {
+    return applySessionPatch(await this.getSessionPatch(sessionId, requestOptions), options);
+  }
+
+  /**
+   * Decode every media artifact of a session and write it to a directory
+   * Files are named after the activity ID and artifact index, e.g. "act123-0.png"
+   * @param sessionId - The session ID
+   * @param directory - Target directory (created if missing)
+   * @param options - Mime type verification, overwrite behaviour and request options for each page
+   * @returns Promise<SavedMedia[]>
+   * @throws MediaValidationError if data is not valid base64 or does not match its mime type
+   */
+  async saveSessionMedia(sessionId: string, directory: string, options?: SaveSessionMediaOptions): Promise<SavedMedia[]> {
+    return saveSessionMedia(this, sessionId, directory, options);
+  }
+
+  /**
+   * Export the full session history as Markdown, standalone HTML or normalized JSON
+   * @param sessionId - The session ID
+   * @param format - 'markdown', 'html' or 'json'
+   * @param options - Media embedding and request options for each call
+   * @returns Promise<string>
+   */
+  async exportSessionTranscript(sessionId: string, format: TranscriptFormat, options?: TranscriptOptions): Promise<string> {
+    return exportSessionTranscript(this, sessionId, format, options);
+  }
+
   /**
    * Send a message to the agent
    * @param sessionId - The session ID
    * @param prompt - The user prompt to send
+   * @param options - AbortSignal, timeout, retry and headers for this call
    * @returns Promise<void>
    */
-  async sendMessage(sessionId: string, prompt: string): Promise<void> {
+  async sendMessage(sessionId: string, prompt: string, options?: RequestOptions): Promise<void> {
     // Validate that prompt is a non-empty string
     if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
       throw new Error('prompt must be a non-empty string');
     }
-    await this.httpClient.post(`/sessions/${sessionId}:sendMessage`, { prompt });
+    await this.request(
+      {
+        method: 'POST',
+        url: `/sessions/${sessionId}:sendMessage`,
+        route: '/sessions/{sessionId}:sendMessage',
+        data: { prompt },
+      },
+      undefined,
+      options
+    );
   }
 }
 
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import { CredentialsError } from './errors';
+
+/**
+ * Supplies the API key; asked before every attempt, so rotated keys apply without rebuilding the client
+ */
+export interface CredentialsProvider {
+  getApiKey(): Promise<string>;
+  /**
+   * Called when the API rejects `apiKey` with 401; the request is retried once with the next getApiKey()
+   * Providers without invalidate() get no retry
+   */
+  invalidate?(apiKey: string): void;
+}
+
+export interface CachedCredentialsOptions {
+  ttlMs?: number; // How long a loaded key is reused (Default: 60000, Infinity keeps it until a 401)
+}
+
+export interface FileCredentialsOptions extends CachedCredentialsOptions {
+  field?: string; // Property holding the key when the file is JSON (Default: 'apiKey')
+}
+
+/**
+ * A fixed API key, used for the `apiKey` client option
+ */
+export class StaticCredentials implements CredentialsProvider {
+  constructor(private readonly apiKey: string) {}
+
+  async getApiKey(): Promise<string> {
+    return this.apiKey;
+  }
+}
+
+/**
+ * Reads the API key from an environment variable on every request
+ * `env` defaults to the current process.env, looked up on each read so a replaced process.env applies too
+ */
+export class EnvCredentials implements CredentialsProvider {
+  constructor(
+    private readonly variable = 'JULES_API_KEY',
+    private readonly env?: NodeJS.ProcessEnv
+  ) {}
+
+  async getApiKey(): Promise<string> {
+    const apiKey = (this.env ?? process.env)[this.variable];
+    if (!apiKey) {
+      throw new CredentialsError(`Environment variable ${this.variable} is not set`);
+    }
+    return apiKey;
+  }
+
+  invalidate(): void {
+    // Nothing is cached: the retry after a 401 re-reads the variable, picking up a rotated key
+  }
+}
+
+/**
+ * Base for providers whose key is costly to load
+ * The key is cached for ttlMs, concurrent callers share one load, and a 401 forces a reload
+ */
+export abstract class CachedCredentials implements CredentialsProvider {
+  private readonly ttlMs: number;
+  private cached?: { apiKey: string; expiresAt: number };
+  private loading?: Promise<string>;
+
+  constructor(options: CachedCredentialsOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60000;
+  }
+
+  protected abstract load(): Promise<string>;
+
+  getApiKey(): Promise<string> {
+    if (this.cached && Date.now() < this.cached.expiresAt) {
+      return Promise.resolve(this.cached.apiKey);
+    }
+    if (!this.loading) {
+      this.loading = this.load()
+        .then(
+          apiKey => {
+            if (!apiKey) {
+              throw new CredentialsError('Credentials provider returned an empty API key');
+            }
+            this.cached = { apiKey, expiresAt: Date.now() + this.ttlMs };
+            return apiKey;
+          },
+          error => {
+            if (error instanceof CredentialsError) throw error;
+            throw new CredentialsError(`Failed to load API key: ${error instanceof Error ? error.message : String(error)}`, error);
+          }
+        )
+        .finally(() => {
+          this.loading = undefined;
+        });
+    }
+    return this.loading;
+  }
+
+  invalidate(apiKey: string): void {
+    // Only drop the key that was rejected, so concurrent 401s trigger a single reload
+    if (this.cached?.apiKey === apiKey) {
+      this.cached = undefined;
+    }
+  }
+}
+
+/**
+ * Reads the API key from a file, e.g. one written by a secrets agent
+ * The file holds either the bare key or a JSON object with the key in `field`
+ */
+export class FileCredentials extends CachedCredentials {
+  private readonly field: string;
+
+  constructor(
+    private readonly path: string,
+    options: FileCredentialsOptions = {}
+  ) {
+    super(options);
+    this.field = options.field ?? 'apiKey';
+  }
+
+  protected async load(): Promise<string> {
+    const content = (await fs.promises.readFile(this.path, 'utf8')).trim();
+    if (!content.startsWith('{')) {
+      return content;
+    }
+    const value = JSON.parse(content)[this.field];
+    if (typeof value !== 'string') {
+      throw new CredentialsError(`Credentials file ${this.path} has no "${this.field}" string`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Loads the API key through a callback, e.g. a vault client
+ */
+export class CallbackCredentials extends CachedCredentials {
+  constructor(
+    private readonly callback: () => string | Promise<string>,
+    options: CachedCredentialsOptions = {}
+  ) {
+    super(options);
+  }
+
+  protected async load(): Promise<string> {
+    return this.callback();
+  }
+}
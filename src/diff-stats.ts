@@ -0,0 +1,113 @@
+import { parseUnidiff, filePatchPath, FilePatch, FileChangeType } from './unidiff';
+import type { Activity } from './schemas/activities';
+
+export interface FileDiffStats {
+  path: string;
+  oldPath?: string; // Set for renames and copies
+  changeType: FileChangeType;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+}
+
+export interface DiffStats {
+  filesChanged: number;
+  additions: number;
+  deletions: number;
+  files: FileDiffStats[];
+}
+
+export type PathPattern = string | RegExp;
+
+/**
+ * Summarize parsed file patches (or a raw unidiff string)
+ */
+export function diffStats(input: FilePatch[] | string): DiffStats {
+  const files = typeof input === 'string' ? parseUnidiff(input) : input;
+  const stats: DiffStats = { filesChanged: 0, additions: 0, deletions: 0, files: [] };
+
+  for (const file of files) {
+    const path = filePatchPath(file);
+    stats.files.push({
+      path,
+      oldPath: file.oldPath !== undefined && file.oldPath !== path ? file.oldPath : undefined,
+      changeType: file.changeType,
+      binary: file.binary,
+      additions: file.additions,
+      deletions: file.deletions,
+    });
+    stats.additions += file.additions;
+    stats.deletions += file.deletions;
+  }
+  stats.filesChanged = stats.files.length;
+  return stats;
+}
+
+/**
+ * Summarize all changeSet artifacts attached to a single activity
+ */
+export function activityDiffStats(activity: Activity): DiffStats {
+  const files = (activity.artifacts ?? []).flatMap(artifact => {
+    const patch = artifact.changeSet?.gitPatch?.unidiffPatch;
+    return patch ? parseUnidiff(patch) : [];
+  });
+  return diffStats(files);
+}
+
+/**
+ * Human-readable summary, e.g. "12 files changed, +340/−120"
+ */
+export function formatDiffStats(stats: DiffStats): string {
+  const files = `${stats.filesChanged} file${stats.filesChanged === 1 ? '' : 's'} changed`;
+  return `${files}, +${stats.additions}/−${stats.deletions}`;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" matches zero or more directories, a trailing "**" matches everything below
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// test() on global and sticky regexes resumes at lastIndex, so they are matched without those flags
+function statelessRegExp(pattern: RegExp): RegExp {
+  return pattern.global || pattern.sticky ? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '')) : pattern;
+}
+
+/**
+ * Match a repository path against a pattern
+ * Strings are globs (`*`, `**`, `?`); a trailing `/` matches everything in that directory
+ */
+export function matchesPathPattern(path: string, pattern: PathPattern): boolean {
+  if (pattern instanceof RegExp) {
+    return statelessRegExp(pattern).test(path);
+  }
+  if (pattern.endsWith('/')) {
+    return path.startsWith(pattern);
+  }
+  return globToRegExp(pattern).test(path);
+}
+
+/**
+ * Files whose old or new path matches one of the protected patterns
+ */
+export function findProtectedPathChanges(stats: DiffStats, patterns: PathPattern[]): FileDiffStats[] {
+  const matchers = patterns.map(pattern => (pattern instanceof RegExp ? statelessRegExp(pattern) : pattern));
+  return stats.files.filter(file =>
+    matchers.some(pattern =>
+      matchesPathPattern(file.path, pattern) || (file.oldPath !== undefined && matchesPathPattern(file.oldPath, pattern))
+    )
+  );
+}
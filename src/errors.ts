@@ -0,0 +1,299 @@
+import { GoogleApiErrorSchema, ErrorDetail } from './schemas/errors';
+import { HTTP_STATUS_TO_GRPC } from './grpc-status';
+import type { Session, SessionState } from './schemas/sessions';
+
+/**
+ * Base class for every error thrown by the SDK
+ */
+export class JulesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled through an AbortSignal
+ */
+export class AbortError extends JulesError {
+  constructor(message = 'The operation was aborted') {
+    super(message);
+  }
+}
+
+/**
+ * Thrown while waiting on a session that ended in the FAILED state
+ */
+export class SessionFailedError extends JulesError {
+  constructor(
+    readonly session: Session,
+    readonly reason?: string // From the latest sessionFailed activity
+  ) {
+    super(`Session ${session.id} failed${reason ? `: ${reason}` : ''}`);
+  }
+}
+
+/**
+ * Thrown when a session reaches a terminal state other than the one being waited for
+ */
+export class UnexpectedSessionStateError extends JulesError {
+  constructor(
+    readonly session: Session,
+    readonly expectedStates: SessionState[]
+  ) {
+    super(`Session ${session.id} ended in state ${session.state}, expected ${expectedStates.join(' or ')}`);
+  }
+}
+
+/**
+ * Thrown when a wait helper exceeds its overall timeout
+ */
+export class WaitTimeoutError extends JulesError {
+  constructor(
+    readonly sessionId: string,
+    readonly timeoutMs: number,
+    readonly lastState?: SessionState
+  ) {
+    super(`Timed out after ${timeoutMs}ms waiting for session ${sessionId}${lastState ? ` (last state: ${lastState})` : ''}`);
+  }
+}
+
+/**
+ * Thrown when a session has no planGenerated activity to review
+ */
+export class PlanNotFoundError extends JulesError {
+  constructor(readonly sessionId: string) {
+    super(`No generated plan found for session ${sessionId}`);
+  }
+}
+
+/**
+ * Thrown when no planApproved activity for the approved plan shows up in time,
+ * or as soon as another plan is approved after it
+ */
+export class PlanApprovalNotConfirmedError extends JulesError {
+  constructor(
+    readonly sessionId: string,
+    readonly planId: string,
+    readonly timeoutMs: number,
+    readonly approvedPlanId?: string // The plan approved instead, if any
+  ) {
+    super(
+      approvedPlanId
+        ? `Plan ${approvedPlanId} was approved instead of plan ${planId} for session ${sessionId}`
+        : `Approval of plan ${planId} was not confirmed for session ${sessionId} within ${timeoutMs}ms`
+    );
+  }
+}
+
+/**
+ * Thrown when the changeSets of a session diff against different base commits and cannot be combined
+ */
+export class ChangeSetBaseMismatchError extends JulesError {
+  constructor(
+    readonly sessionId: string,
+    readonly baseCommitIds: string[]
+  ) {
+    super(`Change sets of session ${sessionId} have different base commits: ${baseCommitIds.join(', ')}`);
+  }
+}
+
+/**
+ * Thrown when a git command fails while applying a session patch
+ */
+export class PatchApplyError extends JulesError {
+  constructor(
+    message: string,
+    readonly command: string,
+    readonly exitCode: number | null,
+    readonly stderr: string
+  ) {
+    super(`${message}: ${stderr.trim() || `git exited with code ${exitCode}`}`);
+  }
+}
+
+/**
+ * Thrown when a media artifact cannot be decoded or does not match its declared mime type
+ */
+export class MediaValidationError extends JulesError {
+  constructor(
+    message: string,
+    readonly reason: 'missing-data' | 'invalid-base64' | 'mime-mismatch',
+    readonly declaredMimeType?: string,
+    readonly detectedMimeType?: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Raised by a Transport when no HTTP response was received
+ * The HTTP client converts it into UnavailableError or DeadlineExceededError
+ */
+export class TransportError extends JulesError {
+  constructor(
+    message: string,
+    readonly reason: 'network' | 'timeout',
+    readonly cause?: unknown
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when a credentials provider cannot supply an API key
+ */
+export class CredentialsError extends JulesError {
+  constructor(
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown without sending the request while the circuit breaker for an endpoint is open
+ */
+export class CircuitOpenError extends JulesError {
+  constructor(
+    readonly endpoint: string, // e.g. "GET /sessions/{sessionId}"
+    readonly retryAfterMs: number // Until the circuit lets a probe request through
+  ) {
+    super(`Circuit breaker is open for ${endpoint}, retry in ${retryAfterMs}ms`);
+  }
+}
+
+/**
+ * Thrown in cassette replay mode when no recorded response matches a request
+ */
+export class CassetteMissError extends JulesError {
+  constructor(
+    readonly method: string,
+    readonly url: string,
+    readonly cassettePath: string
+  ) {
+    super(`No recorded response for ${method} ${url} in cassette ${cassettePath}`);
+  }
+}
+
+export interface JulesApiErrorInit {
+  message: string;
+  status: string; // gRPC status code (e.g., "NOT_FOUND")
+  httpStatus?: number;
+  details?: ErrorDetail[];
+  method?: string;
+  url?: string;
+  retryCount?: number;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/**
+ * Error returned by the Jules API (or raised while talking to it)
+ * Subclasses are selected from the gRPC `status` of the Google API error body
+ */
+export class JulesApiError extends JulesError {
+  readonly status: string;
+  readonly httpStatus?: number;
+  readonly details: ErrorDetail[];
+  readonly method?: string;
+  readonly url?: string;
+  readonly retryCount: number;
+  readonly cause?: unknown;
+
+  constructor(init: JulesApiErrorInit) {
+    super(init.message);
+    this.status = init.status;
+    this.httpStatus = init.httpStatus;
+    this.details = init.details ?? [];
+    this.method = init.method?.toUpperCase();
+    this.url = init.url;
+    this.retryCount = init.retryCount ?? 0;
+    this.cause = init.cause;
+  }
+}
+
+export class InvalidArgumentError extends JulesApiError {}
+export class UnauthenticatedError extends JulesApiError {}
+export class PermissionDeniedError extends JulesApiError {}
+export class NotFoundError extends JulesApiError {}
+export class FailedPreconditionError extends JulesApiError {}
+export class InternalError extends JulesApiError {}
+export class UnavailableError extends JulesApiError {}
+export class DeadlineExceededError extends JulesApiError {}
+
+export class RateLimitedError extends JulesApiError {
+  /** Delay requested by the server via the Retry-After header, if any */
+  readonly retryAfterMs?: number;
+
+  constructor(init: JulesApiErrorInit) {
+    super(init);
+    this.retryAfterMs = init.retryAfterMs;
+  }
+}
+
+type JulesApiErrorClass = new (init: JulesApiErrorInit) => JulesApiError;
+
+const ERROR_CLASSES: Record<string, JulesApiErrorClass> = {
+  INVALID_ARGUMENT: InvalidArgumentError,
+  OUT_OF_RANGE: InvalidArgumentError,
+  UNAUTHENTICATED: UnauthenticatedError,
+  PERMISSION_DENIED: PermissionDeniedError,
+  NOT_FOUND: NotFoundError,
+  FAILED_PRECONDITION: FailedPreconditionError,
+  RESOURCE_EXHAUSTED: RateLimitedError,
+  INTERNAL: InternalError,
+  UNAVAILABLE: UnavailableError,
+  DEADLINE_EXCEEDED: DeadlineExceededError,
+};
+
+export interface ApiErrorContext {
+  httpStatus?: number; // Undefined when no response was received
+  body?: unknown; // Raw response body
+  method?: string;
+  url?: string;
+  retryCount?: number;
+  retryAfterMs?: number | null;
+  timedOut?: boolean; // True when the request was aborted by a client-side timeout
+  message?: string; // Fallback message when the body carries none
+  cause?: unknown;
+}
+
+/**
+ * Build the matching JulesApiError subclass for a failed request
+ * The Google API error body is parsed with GoogleApiErrorSchema when present,
+ * otherwise the gRPC status is derived from the HTTP status
+ */
+export function createJulesApiError(context: ApiErrorContext): JulesApiError {
+  const parsed = GoogleApiErrorSchema.safeParse(context.body);
+
+  let status: string;
+  let message: string;
+  let details: ErrorDetail[] | undefined;
+
+  if (parsed.success) {
+    status = parsed.data.error.status;
+    message = parsed.data.error.message;
+    details = parsed.data.error.details;
+  } else if (context.httpStatus === undefined) {
+    status = context.timedOut ? 'DEADLINE_EXCEEDED' : 'UNAVAILABLE';
+    message = context.message ?? 'Network error';
+  } else {
+    status = HTTP_STATUS_TO_GRPC[context.httpStatus] ?? 'UNKNOWN';
+    message = context.message ?? `Request failed with status code ${context.httpStatus}`;
+  }
+
+  const ErrorClass = ERROR_CLASSES[status] ?? JulesApiError;
+  return new ErrorClass({
+    message,
+    status,
+    httpStatus: context.httpStatus,
+    details,
+    method: context.method,
+    url: context.url,
+    retryCount: context.retryCount,
+    retryAfterMs: context.retryAfterMs ?? undefined,
+    cause: context.cause,
+  });
+}
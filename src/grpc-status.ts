@@ -0,0 +1,35 @@
+/**
+ * gRPC status for each HTTP status, used when a response body is not a Google API error
+ * Internal to the SDK: shared by error parsing, the key pool and the mock server, not exported from the package
+ * @see https://cloud.google.com/apis/design/errors#handling_errors
+ */
+export const HTTP_STATUS_TO_GRPC: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  408: 'DEADLINE_EXCEEDED',
+  409: 'ABORTED',
+  412: 'FAILED_PRECONDITION',
+  429: 'RESOURCE_EXHAUSTED',
+  499: 'CANCELLED',
+  500: 'INTERNAL',
+  501: 'UNIMPLEMENTED',
+  503: 'UNAVAILABLE',
+  504: 'DEADLINE_EXCEEDED',
+};
+
+// ErrorInfo reasons Google APIs use for quota errors sent with other statuses, e.g. a 403 PERMISSION_DENIED
+const QUOTA_REASON = /QUOTA|RATE_LIMIT/;
+
+/**
+ * Whether a gRPC status and its error details report exhausted quota
+ * RESOURCE_EXHAUSTED, or any status carrying a QuotaFailure detail or a quota ErrorInfo reason
+ */
+export function isQuotaExhausted(status: string, details: ReadonlyArray<Record<string, unknown>> = []): boolean {
+  return status === 'RESOURCE_EXHAUSTED' || details.some(detail => {
+    const type = String(detail['@type'] ?? '');
+    return type.endsWith('google.rpc.QuotaFailure') ||
+      (type.endsWith('google.rpc.ErrorInfo') && QUOTA_REASON.test(String(detail.reason ?? '')));
+  });
+}
@@ -1,5 +1,15 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
 import { ZodSchema } from 'zod';
+import { AbortError, createJulesApiError, JulesApiError, TransportError } from './errors';
+import { parseResponse, ResponseSchemas, ValidationMode } from './validation';
+import { CassetteRecorder, CassetteOptions } from './cassette';
+import { resolveTransport, HttpMethod, TransportOption, TransportResponse } from './transports';
+import { composeMiddleware, Middleware } from './middleware';
+import type { CallRecorder, Telemetry } from './telemetry';
+import { RateLimiter, RateLimiterOptions, RequestPriority } from './rate-limiter';
+import { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker';
+import { abortableSleep, throwIfAborted } from './abort';
+import { CredentialsProvider, StaticCredentials } from './credentials';
+import { ResponseCache, CacheOptions } from './cache';
 
 export interface RetryConfig {
   maxRetries?: number; // Default: 3
@@ -16,35 +26,68 @@ export interface LoggerInterface {
 }
 
 export interface HttpOptions {
-  apiKey: string;
+  apiKey?: string; // Shorthand for `credentials: new StaticCredentials(apiKey)`
+  credentials?: CredentialsProvider; // Asked for the key before every attempt
   baseUrl?: string;
   timeout?: number; // Default: 30000 (30 seconds)
   retryConfig?: RetryConfig;
   logger?: LoggerInterface;
+  cassette?: CassetteOptions; // Record or replay HTTP interactions
+  transport?: TransportOption; // Default: 'axios' when installed, 'fetch' otherwise
+  middleware?: Middleware[]; // Outermost first
+  rateLimit?: RateLimiter | RateLimiterOptions; // Client-side throttling, pass a RateLimiter to share it
+  circuitBreaker?: CircuitBreaker | CircuitBreakerOptions; // Fail fast on failing endpoints, pass a CircuitBreaker to share it
+  cache?: ResponseCache | CacheOptions; // Serve repeated reads from a cache, pass a ResponseCache to share it
 }
 
-const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+export interface HttpRequest {
+  method: HttpMethod;
+  url: string; // Path relative to the base URL, e.g. '/sessions'
+  route?: string; // Route template for telemetry, e.g. '/sessions/{sessionId}'
+  params?: Record<string, string | number | boolean | undefined>;
+  data?: unknown; // JSON body
+  headers?: Record<string, string>; // Merged over the default headers
+  priority?: RequestPriority; // Queue priority when rate limited (Default: 'normal')
+  signal?: AbortSignal; // Aborts the request, a queued attempt or a retry backoff with AbortError
+  timeout?: number; // Per-attempt timeout in ms, overrides HttpOptions.timeout
+  retry?: RetryConfig | false; // Merged over HttpOptions.retryConfig, false disables retries
+}
+
+/**
+ * Per-call options accepted as the last argument of every JulesClient API method
+ */
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the call, including a pending retry backoff, with AbortError
+  timeout?: number; // Per-attempt timeout in ms, overrides the client's timeout
+  retry?: RetryConfig | false; // Merged over the client's retryConfig, false disables retries for this call
+  headers?: Record<string, string>; // Merged over the default headers
+  validate?: ValidationMode; // Overrides the client's validation mode
+}
+
+export interface HttpResponse<T = unknown> {
+  status: number;
+  headers: Record<string, string>; // Lower-case names
+  data: T; // Parsed JSON, or the raw text when the body is not JSON
+  retryCount?: number; // Retries performed before this response
+}
+
+/**
+ * Transport-agnostic HTTP client: adds authentication, retries and typed errors on top of a Transport
+ */
+export interface HttpClient {
+  request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>>;
+  use(middleware: Middleware): void; // Append to the middleware chain (innermost)
+}
+
+export const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
   maxRetries: 0, // Disabled by default - opt-in for production use
   initialDelayMs: 1000,
   maxDelayMs: 10000,
   retryableStatuses: [408, 429, 500, 502, 503, 504],
 };
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-function isRetryableError(error: any, retryableStatuses: number[]): boolean {
-  if (!error.response) {
-    // Network errors (no response received)
-    return true;
-  }
-  const status = error.response.status;
-  return retryableStatuses.includes(status);
-}
-
-function getRetryAfterMs(error: AxiosError): number | null {
-  const retryAfter = error.response?.headers['retry-after'];
+function getRetryAfterMs(headers: Record<string, string>): number | null {
+  const retryAfter = headers['retry-after'];
   if (!retryAfter) return null;
   
   // Retry-After can be seconds (number) or HTTP date
@@ -62,55 +105,158 @@ function getRetryAfterMs(error: AxiosError): number | null {
   return null;
 }
 
-export function createHttpClient(options: HttpOptions): AxiosInstance {
+function parseBody(body: string): unknown {
+  if (body === '') return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function buildUrl(baseUrl: string, request: HttpRequest): string {
+  const query = new URLSearchParams();
+  Object.entries(request.params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined) query.append(key, String(value));
+  });
+  const search = query.toString();
+  return `${baseUrl}${request.url}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Outcome of a failed attempt: either an error response or a TransportError (no response)
+ */
+type Failure = { response: TransportResponse; error?: undefined } | { response?: undefined; error: TransportError };
+
+/**
+ * Convert a failed request into the matching JulesApiError subclass
+ */
+function toJulesApiError(request: HttpRequest, failure: Failure, retryCount = 0): JulesApiError {
+  const { response, error } = failure;
+  return createJulesApiError({
+    httpStatus: response?.status,
+    body: response ? parseBody(response.body) : undefined,
+    method: request.method,
+    url: request.url,
+    retryCount,
+    retryAfterMs: response ? getRetryAfterMs(response.headers) : null,
+    timedOut: error?.reason === 'timeout',
+    message: error?.message,
+    cause: error,
+  });
+}
+
+function resolveCredentials(apiKey?: string, credentials?: CredentialsProvider): CredentialsProvider {
+  if (credentials) return credentials;
+  if (apiKey) return new StaticCredentials(apiKey);
+  throw new Error('An apiKey or a credentials provider is required');
+}
+
+export function createHttpClient(options: HttpOptions): HttpClient {
   const { 
     apiKey, 
+    credentials: credentialsOption,
     baseUrl = 'https://jules.googleapis.com/v1alpha',
     timeout = 30000,
     retryConfig,
-    logger
+    logger,
+    cassette,
+    transport: transportOption,
+    middleware = [],
+    rateLimit,
+    circuitBreaker,
+    cache
   } = options;
   
+  const recorder = cassette ? new CassetteRecorder(cassette, baseUrl) : undefined;
+  // Replayed requests never reach the API, so they need no key
+  const credentials: CredentialsProvider = recorder?.mode === 'replay'
+    ? new StaticCredentials('replay')
+    : resolveCredentials(apiKey, credentialsOption);
   const retrySettings = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
-  
-  const instance = axios.create({
-    baseURL: baseUrl,
-    timeout,
-    headers: {
-      'X-Goog-Api-Key': apiKey,
-      'Content-Type': 'application/json',
-    },
-  });
+  const transport = recorder
+    ? recorder.transport(resolveTransport(transportOption))
+    : resolveTransport(transportOption);
+  const headers = {
+    'Content-Type': 'application/json',
+  };
+
+  const chain = [...middleware];
+  const limiter = rateLimit instanceof RateLimiter ? rateLimit : rateLimit ? new RateLimiter(rateLimit) : undefined;
+  const breaker = circuitBreaker instanceof CircuitBreaker
+    ? circuitBreaker
+    : circuitBreaker ? new CircuitBreaker(circuitBreaker, logger) : undefined;
+  const responseCache = cache instanceof ResponseCache ? cache : cache ? new ResponseCache(cache, logger) : undefined;
 
-  // Add retry interceptor
-  instance.interceptors.response.use(
-    response => response,
-    async (error: AxiosError) => {
-      const config = error.config as any;
-      
-      // Initialize retry count
-      if (!config._retryCount) {
-        config._retryCount = 0;
+  async function send(config: HttpRequest): Promise<HttpResponse> {
+    const url = buildUrl(baseUrl, config);
+    const body = config.data === undefined ? undefined : JSON.stringify(config.data);
+    // An explicit key header (e.g. set by JulesClientPool) takes precedence over the credentials provider
+    const explicitKey = config.headers?.['X-Goog-Api-Key'];
+    const endpoint = `${config.method} ${config.route ?? config.url}`;
+    const settings = config.retry === false ? { ...retrySettings, maxRetries: 0 } : { ...retrySettings, ...config.retry };
+    let retryCount = 0;
+    let refreshed = false;
+
+    for (;;) {
+      throwIfAborted(config.signal);
+      // Resolved per attempt so a rotated key also applies to retries
+      const apiKey = explicitKey ?? await credentials.getApiKey();
+      const requestHeaders = { ...headers, 'X-Goog-Api-Key': apiKey, ...config.headers };
+      let failure: Failure;
+      try {
+        // Every attempt, retries included, takes a token from the limiter and goes through the circuit breaker
+        const sendOnce = () => transport.request({
+          method: config.method,
+          url,
+          headers: requestHeaders,
+          body,
+          timeout: config.timeout ?? timeout,
+          signal: config.signal,
+        });
+        const attempt = breaker ? () => breaker.run(endpoint, sendOnce) : sendOnce;
+        const response = await (limiter ? limiter.schedule(attempt, { priority: config.priority, signal: config.signal }) : attempt());
+        if (response.status >= 200 && response.status < 300) {
+          return { status: response.status, headers: response.headers, data: parseBody(response.body), retryCount };
+        }
+        failure = { response };
+      } catch (error) {
+        // Aborts, open circuits and cassette misses are not transport failures and are never retried
+        if (!(error instanceof TransportError)) {
+          throw error;
+        }
+        failure = { error };
       }
 
+      const status = failure.response?.status;
+      if (status === 401 && !explicitKey && !refreshed && credentials.invalidate) {
+        // The key may have been rotated: reload it and try again once, without counting a retry
+        refreshed = true;
+        credentials.invalidate(apiKey);
+        logger?.warn('API key rejected, refreshing credentials', { url: config.url, method: config.method });
+        continue;
+      }
+      const message = failure.error?.message ?? `Request failed with status code ${status}`;
       const shouldRetry = 
-        config._retryCount < retrySettings.maxRetries &&
-        isRetryableError(error, retrySettings.retryableStatuses);
+        retryCount < settings.maxRetries &&
+        // Network errors (no response received) are always retryable
+        (status === undefined || settings.retryableStatuses.includes(status));
 
       if (!shouldRetry) {
         logger?.error('Request failed after retries', {
           url: config.url,
           method: config.method,
-          retries: config._retryCount,
-          error: error.message,
+          retries: retryCount,
+          status,
+          error: message,
         });
-        return Promise.reject(error);
+        throw toJulesApiError(config, failure, retryCount);
       }
 
-      config._retryCount += 1;
+      retryCount += 1;
 
       // Check for Retry-After header (rate limiting)
-      const retryAfterMs = getRetryAfterMs(error);
+      const retryAfterMs = failure.response ? getRetryAfterMs(failure.response.headers) : null;
       let delayMs: number;
 
       if (retryAfterMs !== null) {
@@ -118,38 +264,152 @@ export function createHttpClient(options: HttpOptions): AxiosInstance {
         logger?.warn('Rate limited, respecting Retry-After header', {
           url: config.url,
           delayMs,
-          attempt: config._retryCount,
+          attempt: retryCount,
         });
       } else {
         // Exponential backoff: initialDelay * 2^(attempt - 1)
         delayMs = Math.min(
-          retrySettings.initialDelayMs * Math.pow(2, config._retryCount - 1),
-          retrySettings.maxDelayMs
+          settings.initialDelayMs * Math.pow(2, retryCount - 1),
+          settings.maxDelayMs
         );
         logger?.info('Retrying request', {
           url: config.url,
           method: config.method,
-          attempt: config._retryCount,
-          maxRetries: retrySettings.maxRetries,
+          attempt: retryCount,
+          maxRetries: settings.maxRetries,
           delayMs,
-          error: error.message,
+          error: message,
         });
       }
 
-      await sleep(delayMs);
-
-      return instance.request(config);
+      // Aborting during the backoff rejects right away instead of after the delay
+      await abortableSleep(delayMs, config.signal);
     }
+  }
+
+  // The cache sits below the middleware, so middleware sees cache hits like any other response
+  const handler = responseCache
+    ? async (config: HttpRequest) =>
+      responseCache.handle(config, send, config.headers?.['X-Goog-Api-Key'] ?? await credentials.getApiKey())
+    : send;
+
+  return {
+    request: async <T>(config: HttpRequest) => (await composeMiddleware(chain, handler)(config)) as HttpResponse<T>,
+    use: middleware => {
+      chain.push(middleware);
+    },
+  };
+}
+
+interface SharedRequest {
+  promise: Promise<HttpResponse>;
+  controller: AbortController; // Aborts the HTTP call once every caller has aborted
+  callers: number;
+}
+
+// GET requests in flight per client, so concurrent identical reads share one HTTP call
+const inFlight = new WeakMap<HttpClient, Map<string, SharedRequest>>();
+
+/**
+ * Whether a request may share an in-flight call: GETs without per-call options that
+ * could make otherwise identical requests behave differently; signals apply per caller
+ */
+function isCoalescable(config: HttpRequest): boolean {
+  return (
+    config.method === 'GET' &&
+    Object.keys(config.headers ?? {}).length === 0 &&
+    config.timeout === undefined &&
+    config.retry === undefined
   );
+}
 
-  return instance;
+function coalesce(http: HttpClient, config: HttpRequest, logger?: LoggerInterface): Promise<HttpResponse> {
+  let pending = inFlight.get(http);
+  if (!pending) {
+    pending = new Map();
+    inFlight.set(http, pending);
+  }
+
+  throwIfAborted(config.signal);
+  const requests = pending;
+  const key = buildUrl('', config);
+  let shared = requests.get(key);
+  if (shared) {
+    logger?.debug('Joining in-flight request', { method: config.method, url: config.url });
+  } else {
+    const controller = new AbortController();
+    const request: SharedRequest = {
+      promise: http.request({ ...config, signal: controller.signal }).finally(() => {
+        if (requests.get(key) === request) requests.delete(key);
+      }),
+      controller,
+      callers: 0,
+    };
+    requests.set(key, request);
+    shared = request;
+  }
+  return joinSharedRequest(shared, config.signal, () => {
+    if (requests.get(key) === shared) requests.delete(key);
+  });
+}
+
+/**
+ * Wait for a shared request until the caller's signal aborts
+ * The request itself is aborted, and `onCancel` called, once no caller waits for it anymore
+ */
+function joinSharedRequest(shared: SharedRequest, signal: AbortSignal | undefined, onCancel: () => void): Promise<HttpResponse> {
+  shared.callers += 1;
+  return new Promise((resolve, reject) => {
+    let left = false;
+    const leave = () => {
+      if (left) return false;
+      left = true;
+      shared.callers -= 1;
+      signal?.removeEventListener('abort', onAbort);
+      return true;
+    };
+    const onAbort = () => {
+      if (!leave()) return;
+      if (shared.callers === 0) {
+        onCancel();
+        shared.controller.abort();
+      }
+      reject(new AbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    shared.promise.then(
+      res => leave() && resolve(res),
+      error => leave() && reject(error)
+    );
+  });
 }
 
 export async function requestWithValidation<T>(
-  http: AxiosInstance,
-  config: AxiosRequestConfig,
-  schema?: ZodSchema<T>,
-  logger?: LoggerInterface
+  http: HttpClient,
+  config: HttpRequest,
+  schema?: ResponseSchemas<T> | ZodSchema<T>,
+  logger?: LoggerInterface,
+  validation: ValidationMode = 'strict',
+  telemetry?: Telemetry
+): Promise<T> {
+  // Decided on the caller's request: telemetry adds trace context headers of its own
+  const coalescable = isCoalescable(config);
+  if (telemetry) {
+    return telemetry.trace(config, (traced, recorder) =>
+      execute(http, traced, schema, logger, validation, coalescable, recorder)
+    );
+  }
+  return execute(http, config, schema, logger, validation, coalescable);
+}
+
+async function execute<T>(
+  http: HttpClient,
+  config: HttpRequest,
+  schema: ResponseSchemas<T> | ZodSchema<T> | undefined,
+  logger: LoggerInterface | undefined,
+  validation: ValidationMode,
+  coalescable: boolean,
+  recorder?: CallRecorder
 ): Promise<T> {
   logger?.debug('Making API request', {
     method: config.method,
@@ -158,8 +418,10 @@ export async function requestWithValidation<T>(
   });
 
   const startTime = Date.now();
-  const res = await http.request(config);
+  // Each caller validates the shared response on its own, so none of them see another's parsed objects
+  const res = await (coalescable ? coalesce(http, config, logger) : http.request(config));
   const duration = Date.now() - startTime;
+  recorder?.responded(res);
 
   logger?.debug('API response received', {
     method: config.method,
@@ -168,21 +430,16 @@ export async function requestWithValidation<T>(
     durationMs: duration,
   });
 
-  const data = res.data as unknown;
-  if (schema) {
-    const parsed = schema.safeParse(data);
-    if (!parsed.success) {
-      const err = new Error('Response validation failed: ' + parsed.error.message);
-      // Attach raw data for debugging
-      (err as any).responseData = data;
-      (err as any).zodError = parsed.error;
-      logger?.error('Response validation failed', {
-        url: config.url,
-        error: parsed.error.message,
-      });
-      throw err;
-    }
-    return parsed.data as T;
+  if (!schema || validation === 'off') {
+    recorder?.validated('skipped');
+    return schema ? parseResponse(res.data, schema, validation, logger, config.url) : res.data as T;
+  }
+  try {
+    const data = parseResponse(res.data, schema, validation, logger, config.url);
+    recorder?.validated('valid');
+    return data;
+  } catch (error) {
+    recorder?.validated('invalid');
+    throw error;
   }
-  return data as T;
 }
@@ -1,3 +1,53 @@
 export { JulesClient } from './client';
+export { JulesClientPool } from './client-pool';
 export * from './types';
+export * from './errors';
+export { Paginator } from './pagination';
+export { SessionWatcher } from './watcher';
+export { createPathGuardPolicy, planFromActivity } from './plan-review';
+export { parseUnidiff, formatUnidiff } from './unidiff';
+export {
+  diffStats,
+  activityDiffStats,
+  formatDiffStats,
+  matchesPathPattern,
+  findProtectedPathChanges,
+} from './diff-stats';
+export {
+  decodeMedia,
+  detectMimeType,
+  extensionForMimeType,
+  collectMediaArtifacts,
+  mediaFileName,
+  saveMediaArtifact,
+} from './media';
+export { collectChangeSets, combineChangeSets, applySessionPatch } from './patches';
+export { buildTranscript, renderTranscript, renderTranscriptMarkdown, renderTranscriptHtml } from './transcript';
+export { ACTIVITY_KINDS } from './schemas/activities';
+export {
+  matchActivity,
+  isActivityKind,
+  isAgentMessaged,
+  isUserMessaged,
+  isPlanGenerated,
+  isPlanApproved,
+  isProgressUpdated,
+  isSessionCompleted,
+  isSessionFailed,
+  isUnknownActivity,
+} from './activity';
+export { AxiosTransport, FetchTransport } from './transports';
+export { composeMiddleware } from './middleware';
+export { TELEMETRY_METRICS } from './telemetry';
+export { RateLimiter } from './rate-limiter';
+export { CircuitBreaker } from './circuit-breaker';
+export {
+  StaticCredentials,
+  EnvCredentials,
+  FileCredentials,
+  CallbackCredentials,
+  CachedCredentials,
+} from './credentials';
+export { ResponseCache, MemoryCacheStore, FileCacheStore, DEFAULT_CACHE_TTLS } from './cache';
+export { TERMINAL_SESSION_STATES, isTerminalState } from './session-state';
 export { default } from './client';
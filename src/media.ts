@@ -0,0 +1,279 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable, pipeline } from 'stream';
+import { promisify } from 'util';
+import { MediaValidationError } from './errors';
+import type { JulesClient } from './client';
+import type { RequestOptions } from './http';
+import type { Activity, Media } from './schemas/activities';
+
+const pipelineAsync = promisify(pipeline);
+
+export interface MediaArtifact {
+  activityId: string;
+  index: number; // Position among the activity's media artifacts
+  media: Media;
+}
+
+export interface DecodeMediaOptions {
+  verifyMimeType?: boolean; // Default: true - compare the declared mime type with the magic bytes
+}
+
+export interface SaveMediaOptions extends DecodeMediaOptions {
+  overwrite?: boolean; // Default: true
+}
+
+export interface SaveSessionMediaOptions extends SaveMediaOptions, RequestOptions {}
+
+export interface SavedMedia {
+  activityId: string;
+  index: number;
+  path: string;
+  mimeType?: string;
+  bytes: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'image/tiff': 'tiff',
+  'image/avif': 'avif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/json': 'json',
+  'text/plain': 'txt',
+  'text/html': 'html',
+  'text/csv': 'csv',
+};
+
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/x-png': 'image/png',
+  'application/x-zip-compressed': 'application/zip',
+};
+
+// Major brands of ISO base media files (the "ftyp" box); files with other brands are not recognised
+const FTYP_BRANDS: Record<string, string> = {
+  avif: 'image/avif',
+  avis: 'image/avif',
+  heic: 'image/heic',
+  heix: 'image/heic',
+  heim: 'image/heic',
+  heis: 'image/heic',
+  mif1: 'image/heif',
+  msf1: 'image/heif',
+  'qt  ': 'video/quicktime',
+  'M4A ': 'audio/mp4',
+  'M4V ': 'video/mp4',
+  isom: 'video/mp4',
+  iso2: 'video/mp4',
+  mp41: 'video/mp4',
+  mp42: 'video/mp4',
+  avc1: 'video/mp4',
+  dash: 'video/mp4',
+};
+
+// Sizes of the known BMP info headers, from BITMAPCOREHEADER to BITMAPV5HEADER
+const BMP_INFO_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+/**
+ * Detected types whose signature other formats share (.docx and .jar files are zip archives,
+ * raw camera images are TIFF), so they never count as a mismatch with the declared type
+ */
+const SHARED_SIGNATURES = new Set(['application/zip', 'image/tiff']);
+
+// Decoding chunk size; a multiple of 4 so every chunk is valid base64 on its own
+const BASE64_CHUNK_CHARS = 64 * 1024;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export function normalizeMimeType(mimeType: string): string {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] ?? base;
+}
+
+/**
+ * File extension for a mime type, without the dot ("bin" when unknown)
+ */
+export function extensionForMimeType(mimeType?: string): string {
+  return (mimeType && EXTENSIONS[normalizeMimeType(mimeType)]) || 'bin';
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// "BM" alone is too common a prefix, so the header fields must be consistent too
+function isBmp(bytes: Uint8Array): boolean {
+  if (!startsWith(bytes, ascii('BM')) || bytes.length < 26) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fileSize = view.getUint32(2, true);
+  const reserved = view.getUint32(6, true);
+  const dataOffset = view.getUint32(10, true);
+  const infoHeaderSize = view.getUint32(14, true);
+  return (
+    reserved === 0 &&
+    BMP_INFO_HEADER_SIZES.includes(infoHeaderSize) &&
+    dataOffset >= 14 + infoHeaderSize &&
+    fileSize >= dataOffset
+  );
+}
+
+/**
+ * Infer the mime type from the leading magic bytes; undefined when not recognised
+ */
+export function detectMimeType(bytes: Uint8Array): string | undefined {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (isBmp(bytes)) return 'image/bmp';
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff';
+  if (startsWith(bytes, ascii('%PDF-'))) return 'application/pdf';
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'application/zip';
+  if (startsWith(bytes, ascii('ftyp'), 4) && bytes.length >= 12) {
+    return FTYP_BRANDS[Buffer.from(bytes.subarray(8, 12)).toString('latin1')];
+  }
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (startsWith(bytes, ascii('ID3')) || startsWith(bytes, [0xff, 0xfb])) return 'audio/mpeg';
+
+  const head = Buffer.from(bytes.subarray(0, 256)).toString('utf8').trimStart();
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) return 'image/svg+xml';
+  return undefined;
+}
+
+/**
+ * Normalize base64/base64url data and check that it is well formed
+ */
+function normalizeBase64(media: Media): string {
+  if (!media.data) {
+    throw new MediaValidationError('Media artifact has no data', 'missing-data', media.mimeType);
+  }
+  const data = media.data.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  const padded = data.length % 4 === 0 ? data : data + '='.repeat(4 - (data.length % 4));
+  if (data.length % 4 === 1 || !BASE64_PATTERN.test(padded)) {
+    throw new MediaValidationError('Media artifact data is not valid base64', 'invalid-base64', media.mimeType);
+  }
+  return padded;
+}
+
+function verifyMimeType(media: Media, bytes: Uint8Array): void {
+  if (!media.mimeType) return;
+  const detected = detectMimeType(bytes);
+  const declared = normalizeMimeType(media.mimeType);
+  if (detected && detected !== declared && !SHARED_SIGNATURES.has(detected)) {
+    throw new MediaValidationError(
+      `Media artifact declared as ${declared} but its content looks like ${detected}`,
+      'mime-mismatch',
+      declared,
+      detected
+    );
+  }
+}
+
+/**
+ * Decode a media artifact into a Buffer (a Uint8Array subclass)
+ */
+export function decodeMedia(media: Media, options: DecodeMediaOptions = {}): Buffer {
+  const bytes = Buffer.from(normalizeBase64(media), 'base64');
+  if (options.verifyMimeType !== false) {
+    verifyMimeType(media, bytes);
+  }
+  return bytes;
+}
+
+/**
+ * All media artifacts of an activity
+ */
+export function collectMediaArtifacts(activity: Activity): MediaArtifact[] {
+  return (activity.artifacts ?? [])
+    .filter(artifact => artifact.media?.data)
+    .map((artifact, index) => ({ activityId: activity.id, index, media: artifact.media! }));
+}
+
+/**
+ * Deterministic file name for a media artifact, e.g. "act123-0.png"
+ */
+export function mediaFileName(artifact: MediaArtifact): string {
+  const safeId = artifact.activityId.replace(/[^A-Za-z0-9._-]/g, '_');
+  return `${safeId}-${artifact.index}.${extensionForMimeType(artifact.media.mimeType)}`;
+}
+
+/**
+ * Decode a media artifact chunk by chunk into a file
+ * Data goes to a temporary file that is renamed on success, so partial files never appear
+ */
+export async function saveMediaArtifact(
+  artifact: MediaArtifact,
+  directory: string,
+  options: SaveMediaOptions = {}
+): Promise<SavedMedia> {
+  const data = normalizeBase64(artifact.media);
+  const target = path.join(directory, mediaFileName(artifact));
+  const saved: SavedMedia = {
+    activityId: artifact.activityId,
+    index: artifact.index,
+    path: target,
+    mimeType: artifact.media.mimeType,
+    bytes: 0,
+  };
+
+  if (options.overwrite === false && fs.existsSync(target)) {
+    saved.bytes = fs.statSync(target).size;
+    return saved;
+  }
+
+  const verify = options.verifyMimeType !== false;
+  const chunks = Readable.from((function* () {
+    for (let offset = 0; offset < data.length; offset += BASE64_CHUNK_CHARS) {
+      const chunk = Buffer.from(data.slice(offset, offset + BASE64_CHUNK_CHARS), 'base64');
+      if (offset === 0 && verify) {
+        verifyMimeType(artifact.media, chunk);
+      }
+      saved.bytes += chunk.length;
+      yield chunk;
+    }
+  })());
+
+  await fs.promises.mkdir(directory, { recursive: true });
+  const temporary = `${target}.${process.pid}.tmp`;
+  try {
+    await pipelineAsync(chunks, fs.createWriteStream(temporary));
+    await fs.promises.rename(temporary, target);
+  } catch (error) {
+    await fs.promises.rm(temporary, { force: true });
+    throw error;
+  }
+  return saved;
+}
+
+/**
+ * Save every media artifact of a session's activities into a directory
+ */
+export async function saveSessionMedia(
+  client: Pick<JulesClient, 'iterateActivities'>,
+  sessionId: string,
+  directory: string,
+  options: SaveSessionMediaOptions = {}
+): Promise<SavedMedia[]> {
+  const { verifyMimeType, overwrite, ...requestOptions } = options;
+  const saved: SavedMedia[] = [];
+  for await (const activity of client.iterateActivities(sessionId, requestOptions)) {
+    for (const artifact of collectMediaArtifacts(activity)) {
+      saved.push(await saveMediaArtifact(artifact, directory, { verifyMimeType, overwrite }));
+    }
+  }
+  return saved;
+}
@@ -0,0 +1,22 @@
+import type { HttpRequest, HttpResponse } from './http';
+
+export type MiddlewareNext = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Wraps every API call, outermost first
+ * Call `next` (optionally with a modified request) to continue down the chain, inspect or replace
+ * the response it resolves with, or catch the JulesApiError it rejects with.
+ * Returning without calling `next` short-circuits the request, e.g. to serve a cached response.
+ * Retries happen inside `next`, so each middleware runs once per call, not once per attempt
+ */
+export type Middleware = (request: HttpRequest, next: MiddlewareNext) => Promise<HttpResponse>;
+
+/**
+ * Compose middleware around a final handler; the first middleware is the outermost
+ */
+export function composeMiddleware(middleware: readonly Middleware[], handler: MiddlewareNext): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>(
+    (next, current) => request => current(request, next),
+    handler
+  );
+}
@@ -0,0 +1,70 @@
+import { throwIfAborted } from './abort';
+
+export interface PaginationOptions {
+  pageSize?: number; // Page size requested from the API
+  pageToken?: string; // Token of the page to start from
+  maxItems?: number; // Stop after yielding this many items
+  signal?: AbortSignal; // Cancels iteration before the next page is fetched
+}
+
+export interface Page<T> {
+  items: T[];
+  nextPageToken?: string;
+}
+
+export type PageFetcher<T> = (pageSize: number | undefined, pageToken: string | undefined) => Promise<Page<T>>;
+
+/**
+ * Lazily walks a paginated list endpoint, following nextPageToken transparently
+ * Iterate items with `for await`, whole pages with `pages()`, or collect with `toArray()`
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  constructor(
+    private fetchPage: PageFetcher<T>,
+    private options: PaginationOptions = {}
+  ) {}
+
+  /**
+   * Iterate page by page; the last page is truncated when maxItems is reached
+   */
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    const { pageSize, maxItems, signal } = this.options;
+    let pageToken = this.options.pageToken;
+    let remaining = maxItems ?? Infinity;
+
+    while (remaining > 0) {
+      throwIfAborted(signal);
+
+      // Avoid fetching more than we are going to yield
+      const size = pageSize !== undefined && remaining < pageSize ? remaining : pageSize;
+      const page = await this.fetchPage(size, pageToken);
+      throwIfAborted(signal);
+
+      const items = page.items.length > remaining ? page.items.slice(0, remaining) : page.items;
+      remaining -= items.length;
+      yield { items, nextPageToken: page.nextPageToken };
+
+      if (!page.nextPageToken) {
+        return;
+      }
+      pageToken = page.nextPageToken;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Collect every item into an array
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
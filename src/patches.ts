@@ -0,0 +1,173 @@
+import { spawn } from 'child_process';
+import { ChangeSetBaseMismatchError, PatchApplyError } from './errors';
+import { parseUnidiff, formatUnidiff, filePatchPath, FilePatch } from './unidiff';
+import type { JulesClient } from './client';
+import type { RequestOptions } from './http';
+
+/**
+ * A changeSet artifact together with the activity that produced it
+ */
+export interface ChangeSetArtifact {
+  activityId: string;
+  createTime: string;
+  source?: string;
+  unidiffPatch: string;
+  baseCommitId?: string;
+  suggestedCommitMessage?: string;
+  files: FilePatch[];
+}
+
+/**
+ * All changes of a session combined into a single patch
+ */
+export interface SessionPatch {
+  sessionId: string;
+  changeSets: ChangeSetArtifact[]; // Chronological
+  files: FilePatch[]; // Latest patch for each file
+  patch: string; // Combined unidiff, empty when the session changed nothing
+  baseCommitId?: string;
+  suggestedCommitMessage?: string;
+}
+
+export interface ApplyPatchOptions {
+  cwd: string; // Local git working tree
+  checkoutBase?: boolean; // Check out baseCommitId before applying (Default: false)
+  branch?: string; // Create this branch at baseCommitId instead of a detached checkout
+  commit?: boolean; // Commit the applied changes (Default: false)
+  commitMessage?: string; // Default: the suggested commit message
+}
+
+export interface ApplyPatchResult {
+  files: string[]; // Paths touched by the patch
+  baseCommitId?: string;
+  commitId?: string; // Set when commit was requested
+}
+
+/**
+ * Collect every changeSet artifact of a session in chronological order
+ */
+export async function collectChangeSets(
+  client: Pick<JulesClient, 'iterateActivities'>,
+  sessionId: string,
+  options: RequestOptions = {}
+): Promise<ChangeSetArtifact[]> {
+  const changeSets: ChangeSetArtifact[] = [];
+  for await (const activity of client.iterateActivities(sessionId, options)) {
+    for (const artifact of activity.artifacts ?? []) {
+      const gitPatch = artifact.changeSet?.gitPatch;
+      if (!gitPatch?.unidiffPatch) continue;
+      changeSets.push({
+        activityId: activity.id,
+        createTime: activity.createTime,
+        source: artifact.changeSet!.source,
+        unidiffPatch: gitPatch.unidiffPatch,
+        baseCommitId: gitPatch.baseCommitId,
+        suggestedCommitMessage: gitPatch.suggestedCommitMessage,
+        files: parseUnidiff(gitPatch.unidiffPatch),
+      });
+    }
+  }
+  return changeSets;
+}
+
+// Path of a file in the base commit, so a renamed file and the later patches of either path share one entry
+function basePath(file: FilePatch): string {
+  return file.changeType === 'added' || file.changeType === 'copied' ? file.newPath! : file.oldPath!;
+}
+
+/**
+ * Combine changeSets into one patch
+ * Each changeSet diffs its files against baseCommitId, so the latest patch of a file wins;
+ * incremental changeSets on top of different base commits are rejected rather than merged
+ */
+export function combineChangeSets(sessionId: string, changeSets: ChangeSetArtifact[]): SessionPatch {
+  const baseCommitIds = [...new Set(changeSets.map(changeSet => changeSet.baseCommitId).filter((id): id is string => !!id))];
+  if (baseCommitIds.length > 1) {
+    throw new ChangeSetBaseMismatchError(sessionId, baseCommitIds);
+  }
+
+  const byPath = new Map<string, FilePatch>();
+  for (const changeSet of changeSets) {
+    for (const file of changeSet.files) {
+      const path = basePath(file);
+      byPath.delete(path); // Keep insertion order aligned with the latest change
+      byPath.set(path, file);
+    }
+  }
+
+  const latest = changeSets[changeSets.length - 1];
+  const files = [...byPath.values()];
+  return {
+    sessionId,
+    changeSets,
+    files,
+    patch: formatUnidiff(files),
+    baseCommitId: baseCommitIds[0],
+    suggestedCommitMessage: latest?.suggestedCommitMessage,
+  };
+}
+
+/**
+ * Fetch and combine all changes produced by a session
+ */
+export async function getSessionPatch(
+  client: Pick<JulesClient, 'iterateActivities'>,
+  sessionId: string,
+  options: RequestOptions = {}
+): Promise<SessionPatch> {
+  return combineChangeSets(sessionId, await collectChangeSets(client, sessionId, options));
+}
+
+function runGit(args: string[], cwd: string, input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, { cwd, stdio: ['pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => (stdout += chunk));
+    child.stderr.on('data', chunk => (stderr += chunk));
+    child.on('error', error => reject(new PatchApplyError('Failed to run git', `git ${args[0]}`, null, error.message)));
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new PatchApplyError(`git ${args[0]} failed`, `git ${args.join(' ')}`, code, stderr));
+      }
+    });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Apply a session patch to a local git working tree, optionally at baseCommitId and committed
+ */
+export async function applySessionPatch(
+  sessionPatch: SessionPatch,
+  options: ApplyPatchOptions
+): Promise<ApplyPatchResult> {
+  const { cwd, checkoutBase = false, branch, commit = false } = options;
+  const { baseCommitId } = sessionPatch;
+  const files = sessionPatch.files.map(filePatchPath);
+
+  await runGit(['rev-parse', '--is-inside-work-tree'], cwd);
+
+  if (checkoutBase || branch) {
+    if (!baseCommitId) {
+      throw new PatchApplyError('Cannot check out base commit', 'git checkout', null, 'session patch has no baseCommitId');
+    }
+    await runGit(branch ? ['checkout', '-b', branch, baseCommitId] : ['checkout', '--detach', baseCommitId], cwd);
+  }
+
+  if (sessionPatch.patch) {
+    await runGit(['apply', '--check', '--index', '-'], cwd, sessionPatch.patch);
+    await runGit(['apply', '--index', '-'], cwd, sessionPatch.patch);
+  }
+
+  if (!commit || !sessionPatch.patch) {
+    return { files, baseCommitId };
+  }
+
+  const message = options.commitMessage ?? sessionPatch.suggestedCommitMessage ?? `Apply changes from Jules session ${sessionPatch.sessionId}`;
+  await runGit(['commit', '--file', '-'], cwd, message);
+  const commitId = (await runGit(['rev-parse', 'HEAD'], cwd)).trim();
+  return { files, baseCommitId, commitId };
+}
@@ -0,0 +1,186 @@
+import { abortableSleep, throwIfAborted } from './abort';
+import { PlanApprovalNotConfirmedError, PlanNotFoundError } from './errors';
+import type { JulesClient } from './client';
+import type { RequestOptions } from './http';
+import type { Activity, PlanStep } from './schemas/activities';
+
+/**
+ * A generated plan together with the activity it came from
+ */
+export interface Plan {
+  id: string;
+  sessionId: string;
+  activityId: string;
+  createTime?: string;
+  steps: PlanStep[]; // Sorted by index
+}
+
+export type PlanDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; feedback: string } // Feedback is sent to the agent via sendMessage
+  | { action: 'defer'; reason?: string }; // Leave the plan pending, e.g. for a human reviewer
+
+export type PlanApprovalPolicy = (plan: Plan) => PlanDecision | Promise<PlanDecision>;
+
+export interface ReviewPlanOptions extends RequestOptions {
+  verifyApproval?: boolean; // Default: true - wait for the matching planApproved activity
+  confirmTimeoutMs?: number; // Default: 60000
+  pollIntervalMs?: number; // Default: 2000
+}
+
+export interface PlanReviewResult {
+  plan: Plan;
+  decision: PlanDecision;
+  approvalActivity?: Activity; // planApproved activity, when the plan was approved and verified
+}
+
+type PlanReviewClient = Pick<JulesClient, 'iterateActivities' | 'approvePlan' | 'sendMessage'>;
+
+const DEFAULT_CONFIRM_TIMEOUT_MS = 60000;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Find the most recent planGenerated activity of a session
+ */
+export async function getLatestPlan(
+  client: Pick<JulesClient, 'iterateActivities'>,
+  sessionId: string,
+  options: RequestOptions = {}
+): Promise<Plan | undefined> {
+  let latest: Activity | undefined;
+  for await (const activity of client.iterateActivities(sessionId, options)) {
+    if (activity.planGenerated) {
+      latest = activity;
+    }
+  }
+  return latest && planFromActivity(sessionId, latest);
+}
+
+/**
+ * Build a Plan from a planGenerated activity
+ */
+export function planFromActivity(sessionId: string, activity: Activity): Plan | undefined {
+  if (!activity.planGenerated) {
+    return undefined;
+  }
+
+  const { plan } = activity.planGenerated;
+  return {
+    id: plan.id,
+    sessionId,
+    activityId: activity.id,
+    createTime: plan.createTime ?? activity.createTime,
+    steps: [...(plan.steps ?? [])].sort((a, b) => a.index - b.index),
+  };
+}
+
+/**
+ * Run the latest plan of a session through an approval policy and act on its decision
+ * Approvals are verified by waiting for a planApproved activity with the same planId
+ */
+export async function reviewPlan(
+  client: PlanReviewClient,
+  sessionId: string,
+  policy: PlanApprovalPolicy,
+  options: ReviewPlanOptions = {}
+): Promise<PlanReviewResult> {
+  const { verifyApproval, confirmTimeoutMs, pollIntervalMs, ...requestOptions } = options;
+  const { signal } = requestOptions;
+  const plan = await getLatestPlan(client, sessionId, requestOptions);
+  if (!plan) {
+    throw new PlanNotFoundError(sessionId);
+  }
+
+  const decision = await policy(plan);
+  throwIfAborted(signal);
+
+  switch (decision.action) {
+    case 'approve': {
+      await client.approvePlan(sessionId, requestOptions);
+      if (verifyApproval === false) {
+        return { plan, decision };
+      }
+      const approvalActivity = await waitForPlanApproved(client, plan, options);
+      return { plan, decision, approvalActivity };
+    }
+    case 'reject':
+      await client.sendMessage(sessionId, decision.feedback, requestOptions);
+      return { plan, decision };
+    case 'defer':
+      return { plan, decision };
+  }
+}
+
+async function waitForPlanApproved(
+  client: Pick<JulesClient, 'iterateActivities'>,
+  plan: Plan,
+  options: ReviewPlanOptions
+): Promise<Activity> {
+  const {
+    verifyApproval,
+    confirmTimeoutMs = DEFAULT_CONFIRM_TIMEOUT_MS,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    ...requestOptions
+  } = options;
+  const deadline = Date.now() + confirmTimeoutMs;
+
+  for (;;) {
+    let afterPlan = false;
+    for await (const activity of client.iterateActivities(plan.sessionId, requestOptions)) {
+      if (activity.planApproved?.planId === plan.id) {
+        return activity;
+      }
+      // Once another plan is approved after this one, this one never will be
+      if (afterPlan && activity.planApproved) {
+        throw new PlanApprovalNotConfirmedError(plan.sessionId, plan.id, confirmTimeoutMs, activity.planApproved.planId);
+      }
+      afterPlan = afterPlan || activity.id === plan.activityId;
+    }
+
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      throw new PlanApprovalNotConfirmedError(plan.sessionId, plan.id, confirmTimeoutMs);
+    }
+    await abortableSleep(Math.min(pollIntervalMs, remainingMs), requestOptions.signal);
+  }
+}
+
+export interface PathGuardPolicyOptions {
+  protectedPaths: Array<string | RegExp>; // Strings match as substrings of step titles/descriptions
+  onMatch?: 'defer' | 'reject'; // Default: 'defer'
+  feedback?: (plan: Plan, matches: string[]) => string; // Rejection message when onMatch is 'reject'
+}
+
+/**
+ * Policy approving plans unless a step mentions one of the protected paths
+ */
+export function createPathGuardPolicy(options: PathGuardPolicyOptions): PlanApprovalPolicy {
+  const { protectedPaths, onMatch = 'defer' } = options;
+  // test() on global and sticky regexes resumes at lastIndex, so they are matched without those flags
+  const matchers = protectedPaths.map(pattern =>
+    typeof pattern === 'string' ? pattern : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+  );
+
+  return plan => {
+    const matches = new Set<string>();
+    for (const step of plan.steps) {
+      const text = `${step.title}\n${step.description}`;
+      matchers.forEach((matcher, index) => {
+        if (typeof matcher === 'string' ? text.includes(matcher) : matcher.test(text)) {
+          matches.add(String(protectedPaths[index]));
+        }
+      });
+    }
+
+    if (matches.size === 0) {
+      return { action: 'approve' };
+    }
+    const matched = [...matches];
+    if (onMatch === 'reject') {
+      const feedback = options.feedback?.(plan, matched)
+        ?? `Please revise the plan so that it does not modify protected paths: ${matched.join(', ')}`;
+      return { action: 'reject', feedback };
+    }
+    return { action: 'defer', reason: `Plan touches protected paths: ${matched.join(', ')}` };
+  };
+}
@@ -0,0 +1,130 @@
+import { AbortError } from './errors';
+
+/**
+ * Order in which queued requests are started; requests of equal priority run first-in, first-out
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export interface RateLimiterOptions {
+  requestsPerSecond?: number; // Token bucket refill rate, default: unlimited
+  burst?: number; // Token bucket capacity, default: requestsPerSecond rounded up
+  maxConcurrent?: number; // Requests in flight at once, default: unlimited
+}
+
+export interface ScheduleOptions {
+  priority?: RequestPriority; // Default: 'normal'
+  signal?: AbortSignal; // Removes the task from the queue if aborted before it starts
+}
+
+interface QueuedTask {
+  rank: number;
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Client-side throttling: a token bucket for the request rate, a cap on concurrent requests
+ * and a priority queue for everything waiting on either
+ * Pass the same instance to several clients to share one budget between them
+ */
+export class RateLimiter {
+  private readonly rate?: number; // Tokens per millisecond
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private readonly queue: QueuedTask[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimiterOptions = {}) {
+    const { requestsPerSecond, burst, maxConcurrent } = options;
+    for (const [name, value] of Object.entries({ requestsPerSecond, burst, maxConcurrent })) {
+      if (value !== undefined && !(value > 0)) {
+        throw new RangeError(`${name} must be a positive number`);
+      }
+    }
+    this.rate = requestsPerSecond !== undefined ? requestsPerSecond / 1000 : undefined;
+    this.burst = burst ?? Math.max(1, Math.ceil(requestsPerSecond ?? 1));
+    this.maxConcurrent = maxConcurrent ?? Infinity;
+    this.tokens = this.burst;
+  }
+
+  /** Requests waiting for a token or a free slot */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** Requests currently running */
+  get running(): number {
+    return this.active;
+  }
+
+  /**
+   * Run `task` once a token and a concurrency slot are available
+   * @throws AbortError if the signal aborts while the task is queued
+   */
+  schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { priority = 'normal', signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => entry.cancel();
+      const entry: QueuedTask = {
+        rank: PRIORITY_RANK[priority],
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active += 1;
+          Promise.resolve().then(task).then(resolve, reject).finally(() => {
+            this.active -= 1;
+            this.drain();
+          });
+        },
+        cancel: () => {
+          const index = this.queue.indexOf(entry);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            reject(new AbortError());
+          }
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Insert after every task of the same or a higher priority
+      const index = this.queue.findIndex(queued => queued.rank > entry.rank);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+      this.drain();
+    });
+  }
+
+  private refill(): void {
+    if (this.rate === undefined) return;
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.rate);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      if (this.rate !== undefined && this.tokens < 1) {
+        // Wake up when the next token is due, unless a wake-up is already pending
+        if (!this.timer) {
+          this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.drain();
+          }, Math.ceil((1 - this.tokens) / this.rate));
+        }
+        return;
+      }
+      if (this.rate !== undefined) {
+        this.tokens -= 1;
+      }
+      this.queue.shift()!.start();
+    }
+  }
+}
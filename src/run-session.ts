@@ -0,0 +1,169 @@
+import { throwIfAborted } from './abort';
+import { SessionFailedError, UnexpectedSessionStateError, WaitTimeoutError } from './errors';
+import { planFromActivity, PlanApprovalPolicy, PlanDecision } from './plan-review';
+import type { JulesClient } from './client';
+import type { RequestOptions } from './http';
+import type { SessionWatchEvent } from './watcher';
+import type { Activity, Artifact } from './schemas/activities';
+import type { CreateSessionRequest, PullRequest, Session, SessionState } from './schemas/sessions';
+
+export interface FeedbackRequest {
+  session: Session;
+  question?: string; // Most recent agent message, usually what the agent is asking
+  activities: Activity[]; // Everything seen so far, chronological
+}
+
+export interface RunSessionHandlers {
+  onSessionCreated?: (session: Session) => void;
+  onPlan?: PlanApprovalPolicy; // Default: approve every plan
+  onFeedback?: (request: FeedbackRequest) => string | undefined | Promise<string | undefined>; // Reply sent via sendMessage
+  onEvent?: (event: SessionWatchEvent) => void;
+}
+
+export interface RunSessionOptions extends RequestOptions {
+  timeoutMs?: number; // Overall timeout after the session is created, default: wait indefinitely
+  minIntervalMs?: number; // Watcher poll interval right after a change
+  maxIntervalMs?: number; // Watcher poll interval ceiling while nothing changes
+}
+
+export interface RunSessionResult {
+  session: Session; // Final, COMPLETED session
+  activities: Activity[]; // Chronological
+  artifacts: Artifact[]; // Artifacts of all activities, chronological
+  pullRequest?: PullRequest;
+}
+
+type RunSessionClient = Pick<JulesClient, 'createSession' | 'watchSession' | 'approvePlan' | 'sendMessage'>;
+
+const approveAll: PlanApprovalPolicy = () => ({ action: 'approve' });
+
+/**
+ * Create a session and drive it to completion
+ * Plans awaiting approval go through handlers.onPlan (auto-approved by default); when the agent
+ * waits for feedback, the reply from handlers.onFeedback to each new question is sent. Deferred plans and missing
+ * replies leave the session waiting, e.g. for someone to answer in the web UI.
+ * Rejects with SessionFailedError, WaitTimeoutError or AbortError
+ */
+export async function runSession(
+  client: RunSessionClient,
+  request: CreateSessionRequest,
+  handlers: RunSessionHandlers = {},
+  options: RunSessionOptions = {}
+): Promise<RunSessionResult> {
+  const { timeoutMs, minIntervalMs, maxIntervalMs, ...requestOptions } = options;
+  const { signal } = requestOptions;
+  throwIfAborted(signal);
+
+  const created = await client.createSession(request, requestOptions);
+  handlers.onSessionCreated?.(created);
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  let timedOut = false;
+  const timer = timeoutMs !== undefined
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs)
+    : undefined;
+
+  // Calls after creation are bounded by the overall timeout as well as the caller's signal
+  const callOptions: RequestOptions = { ...requestOptions, signal: controller.signal };
+  const watcher = client.watchSession(created.id, { ...callOptions, minIntervalMs, maxIntervalMs });
+
+  const activities: Activity[] = [];
+  const reviewedPlanIds = new Set<string>();
+  let session = created;
+  let state: SessionState | undefined;
+  let latestPlanActivity: Activity | undefined;
+  let question: string | undefined;
+  let unanswered = false; // A question or feedback request onFeedback has not seen yet
+  let failureReason: string | undefined;
+
+  try {
+    for await (const event of watcher) {
+      handlers.onEvent?.(event);
+
+      switch (event.type) {
+        case 'activity':
+          activities.push(event.activity);
+          break;
+        case 'planGenerated':
+          latestPlanActivity = event.activity;
+          break;
+        case 'agentMessaged':
+          question = event.message;
+          unanswered = true;
+          break;
+        case 'sessionFailed':
+          failureReason = event.reason;
+          break;
+        case 'stateChanged':
+          session = event.session;
+          state = event.state;
+          unanswered = unanswered || state === 'AWAITING_USER_FEEDBACK';
+          break;
+      }
+
+      // Further questions can arrive while the session stays in AWAITING_USER_FEEDBACK
+      if (state === 'AWAITING_USER_FEEDBACK' && unanswered && handlers.onFeedback) {
+        unanswered = false;
+        const reply = await handlers.onFeedback({ session, question, activities: [...activities] });
+        if (reply) {
+          await client.sendMessage(session.id, reply, callOptions);
+        }
+      }
+
+      // The plan and the state change may arrive in either order, so check after every event
+      const plan = latestPlanActivity && planFromActivity(session.id, latestPlanActivity);
+      if (state === 'AWAITING_PLAN_APPROVAL' && plan && !reviewedPlanIds.has(plan.id)) {
+        reviewedPlanIds.add(plan.id);
+        await applyPlanDecision(client, session.id, await (handlers.onPlan ?? approveAll)(plan), callOptions);
+      }
+    }
+  } catch (error) {
+    // The deadline aborts calls in flight, which must not surface as AbortError
+    if (!timedOut) throw error;
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+    watcher.stop();
+  }
+
+  if (timedOut) {
+    throw new WaitTimeoutError(created.id, timeoutMs!, state);
+  }
+  throwIfAborted(signal);
+  if (state === 'FAILED') {
+    throw new SessionFailedError(session, failureReason);
+  }
+  if (state !== 'COMPLETED') {
+    throw new UnexpectedSessionStateError(session, ['COMPLETED']);
+  }
+
+  return {
+    session,
+    activities,
+    artifacts: activities.reduce<Artifact[]>((all, activity) => all.concat(activity.artifacts ?? []), []),
+    pullRequest: session.outputs?.find(output => output.pullRequest)?.pullRequest,
+  };
+}
+
+async function applyPlanDecision(
+  client: RunSessionClient,
+  sessionId: string,
+  decision: PlanDecision,
+  options: RequestOptions
+): Promise<void> {
+  switch (decision.action) {
+    case 'approve':
+      await client.approvePlan(sessionId, options);
+      return;
+    case 'reject':
+      await client.sendMessage(sessionId, decision.feedback, options);
+      return;
+    case 'defer':
+      return;
+  }
+}
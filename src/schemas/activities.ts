@@ -26,13 +26,15 @@ export const MediaSchema = z.object({
   mimeType: z.string().optional(),
 });
 
-// Artifact schema - uses optional fields pattern to match API behavior
-// An artifact must contain at least one type of content
-export const ArtifactSchema = z.object({
+const ArtifactFieldsSchema = z.object({
   changeSet: ChangeSetSchema.optional(),
   media: MediaSchema.optional(),
   bashOutput: BashOutputSchema.optional(),
-}).refine(
+});
+
+// Artifact schema - uses optional fields pattern to match API behavior
+// An artifact must contain at least one type of content
+export const ArtifactSchema = ArtifactFieldsSchema.refine(
   (data) => data.changeSet || data.media || data.bashOutput,
   { message: "Artifact must have at least one of: changeSet, media, or bashOutput" }
 );
@@ -92,27 +94,89 @@ const ActivityContentSchema = z.object({
   sessionFailed: SessionFailedSchema.optional(),
 });
 
-// Complete Activity schema with required base fields
-// An activity must have at least one content field (agentMessaged, userMessaged, etc.)
-export const ActivitySchema = z.object({
+const ActivityBaseSchema = z.object({
   name: z.string(),
   id: z.string(),
   description: z.string().optional(), // API may omit description
   createTime: z.string(),
   originator: z.string(),
   artifacts: z.array(ArtifactSchema).optional(),
-}).and(ActivityContentSchema).refine(
-  (data) => data.agentMessaged || data.userMessaged || data.planGenerated || 
-            data.planApproved || data.progressUpdated || data.sessionCompleted || 
-            data.sessionFailed,
+});
+
+// Content fields in the order used to pick an activity's kind
+export const ACTIVITY_KINDS = [
+  'agentMessaged',
+  'userMessaged',
+  'planGenerated',
+  'planApproved',
+  'progressUpdated',
+  'sessionCompleted',
+  'sessionFailed',
+] as const;
+
+export type ActivityKind = typeof ACTIVITY_KINDS[number];
+type ActivityContent = z.infer<typeof ActivityContentSchema>;
+
+type ActivityBase = z.infer<typeof ActivityBaseSchema>;
+
+// Activity of a single kind: its content field is present, other content fields stay optional
+export type ActivityOf<K extends ActivityKind> = ActivityBase & ActivityContent & { kind: K } & Required<Pick<ActivityContent, K>>;
+
+// Activity without any content field known to this SDK version (lenient and off validation only)
+export type UnknownActivity = ActivityBase & ActivityContent & {
+  kind: 'unknown';
+  raw: Record<string, unknown>; // Payload exactly as returned by the API
+};
+
+// Discriminated on `kind`, so `switch (activity.kind)` narrows to the matching content field
+export type Activity = { [K in ActivityKind]: ActivityOf<K> }[ActivityKind] | UnknownActivity;
+
+/**
+ * Tag an activity with the kind of its first known content field, or 'unknown' with the raw payload
+ */
+export function tagActivityKind(data: Record<string, any>, raw: unknown = data): Activity {
+  const kind = ACTIVITY_KINDS.find(kind => data[kind] !== undefined);
+  return (kind ? { ...data, kind } : { ...data, kind: 'unknown', raw }) as Activity;
+}
+
+// Complete Activity schema with required base fields
+// An activity must have at least one content field (agentMessaged, userMessaged, etc.)
+// and is tagged with the kind of the first one present
+export const ActivitySchema = ActivityBaseSchema.and(ActivityContentSchema).refine(
+  (data) => ACTIVITY_KINDS.some(kind => data[kind] !== undefined),
   { message: "Activity must have at least one content field (agentMessaged, userMessaged, planGenerated, etc.)" }
-);
+).transform((data): Activity => tagActivityKind(data));
+
+// Lenient Activity schema - base fields are still required, but activities and artifacts
+// with no known content become kind 'unknown' instead of failing the whole response
+const LenientActivityFieldsSchema = ActivityBaseSchema.extend({
+  artifacts: z.array(ArtifactFieldsSchema).optional(),
+}).and(ActivityContentSchema);
+
+export const LenientActivitySchema = z.unknown().transform((input, ctx): Activity => {
+  const parsed = LenientActivityFieldsSchema.safeParse(input);
+  if (!parsed.success) {
+    parsed.error.issues.forEach(issue => ctx.addIssue({ ...issue }));
+    return z.NEVER;
+  }
+  return tagActivityKind(parsed.data, input);
+});
 
 export const ListActivitiesResponseSchema = z.object({
   activities: z.array(ActivitySchema).optional(),
   nextPageToken: z.string().optional(),
 });
 
-export type Activity = z.infer<typeof ActivitySchema>;
+export const LenientListActivitiesResponseSchema = z.object({
+  activities: z.array(LenientActivitySchema).optional(),
+  nextPageToken: z.string().optional(),
+});
+
+export type RawActivity = z.input<typeof ActivitySchema>; // Activity as returned by the API, without `kind`
 export type ListActivitiesResponse = z.infer<typeof ListActivitiesResponseSchema>;
 export type Artifact = z.infer<typeof ArtifactSchema>;
+export type PlanStep = z.infer<typeof PlanStepSchema>;
+export type ChangeSet = z.infer<typeof ChangeSetSchema>;
+export type GitPatch = z.infer<typeof GitPatchSchema>;
+export type Media = z.infer<typeof MediaSchema>;
+export type BashOutput = z.infer<typeof BashOutputSchema>;
@@ -48,8 +48,7 @@ export const SessionOutputSchema = z.object({
   pullRequest: PullRequestSchema.optional(),
 });
 
-// Complete session schema with proper required fields
-export const SessionSchema = z.object({
+const SessionFieldsSchema = z.object({
   // Required output-only fields
   name: z.string(),
   id: z.string(),
@@ -67,7 +66,22 @@ export const SessionSchema = z.object({
   requirePlanApproval: z.boolean().optional(),
   automationMode: AutomationModeEnum.optional(),
   outputs: z.array(SessionOutputSchema).optional(),
-}).strict();
+});
+
+// Complete session schema with proper required fields
+export const SessionSchema = SessionFieldsSchema.strict();
+
+// Enum that maps values added to the API after this SDK version to its UNSPECIFIED member,
+// so code switching over the known values stays exhaustive
+function openEnum<T extends z.ZodEnum>(schema: T, unspecified: z.output<T>): z.ZodType<z.output<T>> {
+  return z.union([schema, z.string().transform(() => unspecified)]);
+}
+
+// Lenient session schema - unknown fields and enum values are accepted (and reported by the client)
+export const LenientSessionSchema = SessionFieldsSchema.extend({
+  state: openEnum(SessionStateEnum, 'STATE_UNSPECIFIED'),
+  automationMode: openEnum(AutomationModeEnum, 'AUTOMATION_MODE_UNSPECIFIED').optional(),
+});
 
 // List sessions response schema
 export const ListSessionsResponseSchema = z.object({
@@ -75,8 +89,15 @@ export const ListSessionsResponseSchema = z.object({
   nextPageToken: z.string().optional(),
 });
 
+export const LenientListSessionsResponseSchema = z.object({
+  sessions: z.array(LenientSessionSchema).optional(),
+  nextPageToken: z.string().optional(),
+});
+
 export type CreateSessionRequest = z.infer<typeof CreateSessionRequestSchema>;
 export type Session = z.infer<typeof SessionSchema>;
 export type SessionState = z.infer<typeof SessionStateEnum>;
 export type AutomationMode = z.infer<typeof AutomationModeEnum>;
 export type ListSessionsResponse = z.infer<typeof ListSessionsResponseSchema>;
+export type PullRequest = z.infer<typeof PullRequestSchema>;
+export type SessionOutput = z.infer<typeof SessionOutputSchema>;
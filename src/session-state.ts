@@ -0,0 +1,10 @@
+import type { SessionState } from './schemas/sessions';
+
+/**
+ * States after which a session never changes again
+ */
+export const TERMINAL_SESSION_STATES: readonly SessionState[] = ['COMPLETED', 'FAILED'];
+
+export function isTerminalState(state: SessionState): boolean {
+  return TERMINAL_SESSION_STATES.includes(state);
+}
@@ -0,0 +1,126 @@
+import type { Attributes, Counter, Histogram, Meter, TextMapPropagator, Tracer } from '@opentelemetry/api';
+import type { HttpRequest, HttpResponse } from './http';
+
+export interface TelemetryOptions {
+  tracer?: Tracer; // Default: tracer from the global TracerProvider
+  meter?: Meter; // Default: meter from the global MeterProvider
+  propagator?: TextMapPropagator; // Default: the global propagator
+  propagateContext?: boolean; // Inject trace context headers into requests (Default: true)
+}
+
+/**
+ * - valid: the response matched its schema
+ * - invalid: the response was rejected by its schema
+ * - skipped: no schema, or validation mode 'off'
+ */
+export type ValidationOutcome = 'valid' | 'invalid' | 'skipped';
+
+/**
+ * Receives what the instrumented call learns while it runs
+ */
+export interface CallRecorder {
+  responded(response: HttpResponse): void;
+  validated(outcome: ValidationOutcome): void;
+}
+
+const INSTRUMENTATION_NAME = '@kiwina/jules-api-sdk';
+
+export const TELEMETRY_METRICS = {
+  duration: 'jules.client.request.duration', // Histogram, milliseconds, retries included
+  errors: 'jules.client.request.errors', // Counter of failed calls
+  retries: 'jules.client.request.retries', // Counter of retried attempts
+} as const;
+
+/**
+ * OpenTelemetry instrumentation for API calls: one CLIENT span per call plus latency, error and retry metrics
+ * Requires the optional peer dependency @opentelemetry/api
+ */
+export class Telemetry {
+  private readonly api: typeof import('@opentelemetry/api');
+  private readonly tracer: Tracer;
+  private readonly propagator?: TextMapPropagator;
+  private readonly propagateContext: boolean;
+  private readonly duration: Histogram;
+  private readonly errors: Counter;
+  private readonly retries: Counter;
+
+  constructor(options: TelemetryOptions = {}) {
+    // Loaded lazily so the SDK works without @opentelemetry/api installed
+    this.api = require('@opentelemetry/api');
+    this.tracer = options.tracer ?? this.api.trace.getTracer(INSTRUMENTATION_NAME);
+    this.propagator = options.propagator;
+    this.propagateContext = options.propagateContext ?? true;
+
+    const meter = options.meter ?? this.api.metrics.getMeter(INSTRUMENTATION_NAME);
+    this.duration = meter.createHistogram(TELEMETRY_METRICS.duration, {
+      description: 'Duration of Jules API calls',
+      unit: 'ms',
+    });
+    this.errors = meter.createCounter(TELEMETRY_METRICS.errors, { description: 'Failed Jules API calls' });
+    this.retries = meter.createCounter(TELEMETRY_METRICS.retries, { description: 'Retried Jules API requests' });
+  }
+
+  /**
+   * Run one API call inside a span; the request passed to `call` carries the trace context headers
+   */
+  async trace<T>(request: HttpRequest, call: (request: HttpRequest, recorder: CallRecorder) => Promise<T>): Promise<T> {
+    const { context, trace, defaultTextMapSetter, SpanKind, SpanStatusCode } = this.api;
+    const route = request.route ?? request.url;
+    const metricAttributes: Attributes = { 'http.request.method': request.method, 'http.route': route };
+
+    const span = this.tracer.startSpan(`${request.method} ${route}`, {
+      kind: SpanKind.CLIENT,
+      attributes: { ...metricAttributes, 'url.path': request.url },
+    });
+    const spanContext = trace.setSpan(context.active(), span);
+    const headers = { ...request.headers };
+    if (this.propagateContext) {
+      (this.propagator ?? this.api.propagation).inject(spanContext, headers, defaultTextMapSetter);
+    }
+
+    const startTime = Date.now();
+    let status: number | undefined;
+    let retryCount = 0;
+    let outcome: ValidationOutcome | undefined;
+    const recorder: CallRecorder = {
+      responded: response => {
+        status = response.status;
+        retryCount = response.retryCount ?? 0;
+      },
+      validated: result => {
+        outcome = result;
+      },
+    };
+
+    try {
+      return await context.with(spanContext, () => call({ ...request, headers }, recorder));
+    } catch (error) {
+      const failure = error as { name?: string; status?: unknown; httpStatus?: number; retryCount?: number; message?: string };
+      status = status ?? failure.httpStatus;
+      retryCount = failure.retryCount ?? retryCount;
+      // gRPC status for API errors, a fixed type for schema mismatches, the error name otherwise
+      const errorType = typeof failure.status === 'string'
+        ? failure.status
+        : outcome === 'invalid' ? 'invalid_response' : failure.name ?? 'Error';
+      span.setAttribute('error.type', errorType);
+      span.recordException(error as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: failure.message });
+      this.errors.add(1, { ...metricAttributes, 'error.type': errorType });
+      throw error;
+    } finally {
+      if (status !== undefined) {
+        span.setAttribute('http.response.status_code', status);
+        metricAttributes['http.response.status_code'] = status;
+      }
+      if (retryCount > 0) {
+        span.setAttribute('http.request.resend_count', retryCount);
+        this.retries.add(retryCount, metricAttributes);
+      }
+      if (outcome) {
+        span.setAttribute('jules.validation.outcome', outcome);
+      }
+      this.duration.record(Date.now() - startTime, metricAttributes);
+      span.end();
+    }
+  }
+}
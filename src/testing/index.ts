@@ -0,0 +1,17 @@
+// Test utilities, published as @kiwina/jules-api-sdk/testing
+// Requires msw (an optional peer dependency) and is not loaded by the main entry point
+export {
+  createMockJulesServer,
+  defaultScenario,
+  MockJulesServer,
+} from './mock-server';
+
+export type {
+  MockActivity,
+  MockSession,
+  MockJulesFixtures,
+  MockJulesServerOptions,
+  ScenarioStep,
+  InjectedError,
+  RecordedRequest,
+} from './mock-server';
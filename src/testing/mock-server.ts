@@ -0,0 +1,390 @@
+import * as fs from 'fs';
+import { http, HttpResponse, RequestHandler } from 'msw';
+import { setupServer, SetupServerApi } from 'msw/node';
+import { HTTP_STATUS_TO_GRPC } from '../grpc-status';
+import type { RawActivity } from '../schemas/activities';
+import type { CreateSessionRequest, Session, SessionOutput, SessionState } from '../schemas/sessions';
+import type { Source } from '../schemas/sources';
+
+/**
+ * Activity content for a scenario step; name, id and createTime are generated when omitted
+ */
+export type MockActivity = Omit<RawActivity, 'name' | 'id' | 'createTime' | 'originator'> &
+  Partial<Pick<RawActivity, 'id' | 'createTime' | 'originator'>>;
+
+/**
+ * One step of a scripted session; the session moves to the next step on each GET of the session
+ */
+export interface ScenarioStep {
+  state: SessionState;
+  activities?: MockActivity[]; // Added when the step is entered
+  outputs?: SessionOutput[];
+  until?: 'approvePlan' | 'sendMessage'; // Hold this step until the client calls the method
+}
+
+export type MockSession = Session & {
+  activities?: RawActivity[];
+  scenario?: ScenarioStep[]; // Remaining steps, the first is entered on the next poll
+};
+
+export interface MockJulesFixtures {
+  sources?: Source[];
+  sessions?: MockSession[];
+}
+
+export interface InjectedError {
+  status: number; // HTTP status, e.g. 429 or 503
+  method?: string; // Default: any method
+  path?: string | RegExp; // Matched against the path after the base URL, e.g. "sessions/123"; default: any
+  message?: string;
+  headers?: Record<string, string>; // e.g. { 'Retry-After': '2' }
+  times?: number; // Default: 1
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string; // Path after the base URL, e.g. "sessions/123:approvePlan"
+  params: Record<string, string>;
+  body?: unknown;
+}
+
+export interface MockJulesServerOptions {
+  baseUrl?: string; // Default: https://jules.googleapis.com/v1alpha
+  apiKey?: string; // When set, requests with another X-Goog-Api-Key are rejected with 401
+  fixtures?: string | MockJulesFixtures; // JSON file path or inline fixtures
+  scenario?: ScenarioStep[] | ((request: CreateSessionRequest) => ScenarioStep[]); // For created sessions
+  defaultPageSize?: number; // Default: 30
+  startTime?: string; // Clock for generated timestamps, advances one second per item (Default: 2025-01-01T00:00:00Z)
+}
+
+const DEFAULT_BASE_URL = 'https://jules.googleapis.com/v1alpha';
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+interface SessionRecord {
+  session: Session;
+  activities: RawActivity[];
+  scenario: ScenarioStep[];
+  pending?: 'approvePlan' | 'sendMessage'; // Action the current step waits for
+}
+
+class MockHttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers?: Record<string, string>) {
+    super(message);
+  }
+}
+
+// Malformed bodies get the 400 INVALID_ARGUMENT the real API answers with
+function parseJsonBody(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new MockHttpError(400, 'Invalid JSON payload received.');
+  }
+}
+
+/**
+ * Scenario used for created sessions when none is configured:
+ * plan (held for approval when requested), progress, then completion
+ */
+export function defaultScenario(request: CreateSessionRequest): ScenarioStep[] {
+  const plan: MockActivity = {
+    planGenerated: {
+      plan: {
+        id: 'plan-1',
+        steps: [{ id: 'step-1', index: 0, title: 'Implement the change', description: request.prompt }],
+      },
+    },
+  };
+  return [
+    { state: 'PLANNING', activities: [plan] },
+    ...(request.requirePlanApproval ? [{ state: 'AWAITING_PLAN_APPROVAL' as const, until: 'approvePlan' as const }] : []),
+    { state: 'IN_PROGRESS', activities: [{ progressUpdated: { title: 'Working on it' } }] },
+    {
+      state: 'COMPLETED',
+      activities: [{ sessionCompleted: {} }],
+      outputs: request.automationMode === 'AUTO_CREATE_PR'
+        ? [{ pullRequest: { url: 'https://github.com/mock/repo/pull/1', title: request.title ?? 'Mock change', description: request.prompt } }]
+        : undefined,
+    },
+  ];
+}
+
+/**
+ * In-memory Jules API emulated with msw
+ * Call listen() in beforeAll and close() in afterAll, or register `handlers` on your own msw server
+ */
+export class MockJulesServer {
+  readonly requests: RecordedRequest[] = [];
+  readonly handlers: RequestHandler[];
+  private readonly baseUrl: string;
+  private readonly sources: Source[] = [];
+  private readonly sessions = new Map<string, SessionRecord>();
+  private errors: InjectedError[] = [];
+  private server?: SetupServerApi;
+  private clock: number;
+  private nextId = 1;
+
+  constructor(private readonly options: MockJulesServerOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.clock = Date.parse(options.startTime ?? '2025-01-01T00:00:00Z');
+    this.handlers = [http.all(`${this.baseUrl}/*`, ({ request }) => this.handle(request))];
+    if (options.fixtures) {
+      this.loadFixtures(options.fixtures);
+    }
+  }
+
+  listen(): this {
+    this.server ??= setupServer(...this.handlers);
+    this.server.listen({ onUnhandledRequest: 'bypass' });
+    return this;
+  }
+
+  close(): void {
+    this.server?.close();
+    this.server = undefined;
+  }
+
+  /** Remove all sources, sessions, injected errors and recorded requests */
+  reset(): void {
+    this.sources.length = 0;
+    this.sessions.clear();
+    this.errors = [];
+    this.requests.length = 0;
+  }
+
+  loadFixtures(fixtures: string | MockJulesFixtures): void {
+    const data: MockJulesFixtures = typeof fixtures === 'string' ? JSON.parse(fs.readFileSync(fixtures, 'utf8')) : fixtures;
+    data.sources?.forEach(source => this.addSource(source));
+    data.sessions?.forEach(session => this.addSession(session));
+  }
+
+  addSource(source: Source): void {
+    this.sources.push(source);
+  }
+
+  addSession(mock: MockSession): Session {
+    const { activities = [], scenario = [], ...session } = mock;
+    this.sessions.set(session.id, { session, activities: [...activities], scenario: [...scenario] });
+    return session;
+  }
+
+  addActivity(sessionId: string, activity: MockActivity): RawActivity {
+    const record = this.sessions.get(sessionId);
+    if (!record) {
+      throw new Error(`Unknown mock session: ${sessionId}`);
+    }
+    const id = activity.id ?? `act-${this.nextId++}`;
+    const created: RawActivity = {
+      ...activity,
+      name: `sessions/${sessionId}/activities/${id}`,
+      id,
+      createTime: activity.createTime ?? this.tick(),
+      originator: activity.originator ?? (activity.userMessaged ? 'user' : 'agent'),
+    } as RawActivity;
+    record.activities.push(created);
+    return created;
+  }
+
+  getSession(sessionId: string): Session | undefined {
+    return this.sessions.get(sessionId)?.session;
+  }
+
+  getActivities(sessionId: string): RawActivity[] {
+    return this.sessions.get(sessionId)?.activities ?? [];
+  }
+
+  /** Fail matching requests with the given status before they reach the emulated API */
+  injectError(error: InjectedError): void {
+    this.errors.push({ times: 1, ...error });
+  }
+
+  private tick(): string {
+    const time = new Date(this.clock).toISOString().replace('.000Z', 'Z');
+    this.clock += 1000;
+    return time;
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.slice(new URL(this.baseUrl).pathname.length).replace(/^\//, '');
+    const params: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => (params[key] = value));
+    const text = await request.text();
+    const recorded: RecordedRequest = { method: request.method, path, params };
+    this.requests.push(recorded);
+
+    try {
+      const body = parseJsonBody(text);
+      recorded.body = body;
+      this.throwInjectedError(request.method, path);
+      if (this.options.apiKey && request.headers.get('X-Goog-Api-Key') !== this.options.apiKey) {
+        throw new MockHttpError(401, 'API key not valid. Please pass a valid API key.');
+      }
+      return HttpResponse.json(this.route(request.method, path, params, body) ?? {});
+    } catch (error) {
+      if (!(error instanceof MockHttpError)) throw error;
+      const status = HTTP_STATUS_TO_GRPC[error.status] ?? 'UNKNOWN';
+      return HttpResponse.json(
+        { error: { code: error.status, message: error.message, status } },
+        { status: error.status, headers: error.headers }
+      );
+    }
+  }
+
+  private throwInjectedError(method: string, path: string): void {
+    const index = this.errors.findIndex(error =>
+      (!error.method || error.method.toUpperCase() === method) &&
+      (error.path === undefined || (typeof error.path === 'string' ? error.path === path : error.path.test(path)))
+    );
+    if (index === -1) return;
+
+    const error = this.errors[index];
+    error.times = (error.times ?? 1) - 1;
+    if (error.times <= 0) {
+      this.errors.splice(index, 1);
+    }
+    throw new MockHttpError(error.status, error.message ?? `Injected ${error.status} error`, error.headers);
+  }
+
+  private route(method: string, path: string, params: Record<string, string>, body: unknown): unknown {
+    const segments = path.split('/');
+    const [collection, id, sub, subId] = segments;
+
+    if (collection === 'sources') {
+      if (method !== 'GET') throw new MockHttpError(405, 'Method not allowed');
+      if (!id) {
+        const { items, nextPageToken } = this.paginate(this.filterSources(params.filter), params);
+        return { sources: items, nextPageToken };
+      }
+      const sourceId = segments.slice(1).join('/');
+      const source = this.sources.find(s => s.id === sourceId || s.name === `sources/${sourceId}`);
+      if (!source) throw new MockHttpError(404, `Source ${sourceId} not found`);
+      return source;
+    }
+
+    if (collection !== 'sessions') {
+      throw new MockHttpError(404, `Unknown resource: ${path}`);
+    }
+
+    if (!id) {
+      if (method === 'POST') return this.createSession(body as CreateSessionRequest | undefined);
+      const sessions = [...this.sessions.values()].map(record => record.session).reverse(); // Newest first
+      const { items, nextPageToken } = this.paginate(sessions, params);
+      return { sessions: items, nextPageToken };
+    }
+
+    const [sessionId, action] = id.split(':');
+    const record = this.sessions.get(sessionId);
+    if (!record) throw new MockHttpError(404, `Session ${sessionId} not found`);
+
+    if (action === 'approvePlan' && method === 'POST') return this.approvePlan(record);
+    if (action === 'sendMessage' && method === 'POST') return this.sendMessage(record, body as { prompt?: string } | undefined);
+    if (action || method !== 'GET') throw new MockHttpError(404, `Unknown method: ${path}`);
+
+    if (!sub) {
+      this.advance(record);
+      return record.session;
+    }
+    if (sub === 'activities' && !subId) {
+      const { items, nextPageToken } = this.paginate(record.activities, params);
+      return { activities: items, nextPageToken };
+    }
+    if (sub === 'activities') {
+      const activity = record.activities.find(a => a.id === subId);
+      if (!activity) throw new MockHttpError(404, `Activity ${subId} not found`);
+      return activity;
+    }
+    throw new MockHttpError(404, `Unknown resource: ${path}`);
+  }
+
+  private paginate<T>(all: T[], params: Record<string, string>): { items: T[]; nextPageToken?: string } {
+    const pageSize = Math.min(Number(params.pageSize) || this.options.defaultPageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    let offset = 0;
+    if (params.pageToken) {
+      offset = Number(Buffer.from(params.pageToken, 'base64').toString('utf8'));
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw new MockHttpError(400, 'Invalid page token');
+      }
+    }
+    const end = offset + pageSize;
+    return {
+      items: all.slice(offset, end),
+      nextPageToken: end < all.length ? Buffer.from(String(end)).toString('base64') : undefined,
+    };
+  }
+
+  // Supports the documented form: name=sources/a OR name=sources/b
+  private filterSources(filter?: string): Source[] {
+    if (!filter) return this.sources;
+    const names = filter.split(/\s+OR\s+/).map(term => term.trim().replace(/^name\s*=\s*/, '').replace(/^"(.*)"$/, '$1'));
+    return this.sources.filter(source => names.includes(source.name));
+  }
+
+  private createSession(request: CreateSessionRequest | undefined): Session {
+    if (!request?.prompt || !request.sourceContext?.source) {
+      throw new MockHttpError(400, 'prompt and sourceContext.source are required');
+    }
+    const id = String(1000000 + this.nextId++);
+    const now = this.tick();
+    const scenario = typeof this.options.scenario === 'function'
+      ? this.options.scenario(request)
+      : this.options.scenario ?? defaultScenario(request);
+
+    const session = this.addSession({
+      ...request,
+      name: `sessions/${id}`,
+      id,
+      state: 'QUEUED',
+      url: `https://jules.google.com/session/${id}`,
+      createTime: now,
+      updateTime: now,
+      scenario,
+    });
+    this.addActivity(id, { userMessaged: { userMessage: request.prompt } });
+    return session;
+  }
+
+  /**
+   * Enter the next scenario step unless the current one is waiting for the client
+   */
+  private advance(record: SessionRecord): void {
+    if (record.pending || record.scenario.length === 0) return;
+    const step = record.scenario.shift()!;
+    step.activities?.forEach(activity => this.addActivity(record.session.id, activity));
+    record.session = {
+      ...record.session,
+      state: step.state,
+      updateTime: this.tick(),
+      ...(step.outputs ? { outputs: step.outputs } : {}),
+    };
+    record.pending = step.until;
+  }
+
+  private approvePlan(record: SessionRecord): Record<string, never> {
+    const plan = [...record.activities].reverse().find(activity => activity.planGenerated)?.planGenerated?.plan;
+    if (record.session.state !== 'AWAITING_PLAN_APPROVAL' || !plan) {
+      throw new MockHttpError(400, `Session ${record.session.id} has no plan awaiting approval`);
+    }
+    this.addActivity(record.session.id, { originator: 'user', planApproved: { planId: plan.id } });
+    if (record.pending === 'approvePlan') record.pending = undefined;
+    return {};
+  }
+
+  private sendMessage(record: SessionRecord, body: { prompt?: string } | undefined): Record<string, never> {
+    if (!body?.prompt) {
+      throw new MockHttpError(400, 'prompt is required');
+    }
+    this.addActivity(record.session.id, { userMessaged: { userMessage: body.prompt } });
+    if (record.pending === 'sendMessage') record.pending = undefined;
+    return {};
+  }
+}
+
+/**
+ * Create an in-memory Jules API for tests
+ */
+export function createMockJulesServer(options?: MockJulesServerOptions): MockJulesServer {
+  return new MockJulesServer(options);
+}
@@ -0,0 +1,384 @@
+import { diffStats, formatDiffStats, DiffStats } from './diff-stats';
+import { collectMediaArtifacts, mediaFileName } from './media';
+import { matchActivity } from './activity';
+import type { JulesClient } from './client';
+import type { RequestOptions } from './http';
+import type { Activity, Artifact, Media, PlanStep } from './schemas/activities';
+import type { Session } from './schemas/sessions';
+
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+export type TranscriptArtifact =
+  | { type: 'bashOutput'; command?: string; output?: string; exitCode?: number }
+  | { type: 'diff'; source?: string; patch: string; baseCommitId?: string; suggestedCommitMessage?: string; stats: DiffStats }
+  | { type: 'media'; mimeType?: string; fileName: string; data?: string };
+
+interface TranscriptEntryBase {
+  activityId: string;
+  createTime: string;
+  originator: string;
+  description?: string;
+  artifacts: TranscriptArtifact[];
+}
+
+export type TranscriptEntry = TranscriptEntryBase & (
+  | { type: 'userMessage'; message: string }
+  | { type: 'agentMessage'; message: string }
+  | { type: 'plan'; planId: string; steps: PlanStep[] }
+  | { type: 'planApproved'; planId: string }
+  | { type: 'progress'; title?: string; details?: string }
+  | { type: 'sessionCompleted' }
+  | { type: 'sessionFailed'; reason?: string }
+  | { type: 'unknown' } // Activity kind unknown to this SDK version
+);
+
+export interface TranscriptPullRequest {
+  url: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * Normalized, format-independent transcript of a session
+ */
+export interface Transcript {
+  session: {
+    id: string;
+    title?: string;
+    state: Session['state'];
+    prompt: string;
+    source: string;
+    url: string;
+    createTime: string;
+    updateTime: string;
+  };
+  entries: TranscriptEntry[]; // Chronological
+  pullRequests: TranscriptPullRequest[];
+}
+
+export interface TranscriptOptions extends RequestOptions {
+  includeMediaData?: boolean; // Default: true for html (embedded images), false otherwise
+}
+
+function toArtifact(artifact: Artifact, mediaNames: Map<Media, string>, includeMediaData: boolean): TranscriptArtifact | undefined {
+  if (artifact.bashOutput) {
+    const { command, output, exitCode } = artifact.bashOutput;
+    return { type: 'bashOutput', command, output, exitCode };
+  }
+  if (artifact.changeSet?.gitPatch?.unidiffPatch) {
+    const { unidiffPatch, baseCommitId, suggestedCommitMessage } = artifact.changeSet.gitPatch;
+    return {
+      type: 'diff',
+      source: artifact.changeSet.source,
+      patch: unidiffPatch,
+      baseCommitId,
+      suggestedCommitMessage,
+      stats: diffStats(unidiffPatch),
+    };
+  }
+  const fileName = artifact.media && mediaNames.get(artifact.media);
+  if (artifact.media && fileName) {
+    return {
+      type: 'media',
+      mimeType: artifact.media.mimeType,
+      fileName,
+      data: includeMediaData ? artifact.media.data : undefined,
+    };
+  }
+  return undefined;
+}
+
+function toEntry(activity: Activity, includeMediaData: boolean): TranscriptEntry {
+  // Same names as saveSessionMedia so transcripts can reference saved files
+  const mediaNames = new Map(collectMediaArtifacts(activity).map(media => [media.media, mediaFileName(media)] as [Media, string]));
+  const artifacts = (activity.artifacts ?? [])
+    .map(artifact => toArtifact(artifact, mediaNames, includeMediaData))
+    .filter((artifact): artifact is TranscriptArtifact => artifact !== undefined);
+
+  const base: TranscriptEntryBase = {
+    activityId: activity.id,
+    createTime: activity.createTime,
+    originator: activity.originator,
+    description: activity.description,
+    artifacts,
+  };
+
+  return matchActivity<TranscriptEntry>(activity, {
+    userMessaged: a => ({ ...base, type: 'userMessage', message: a.userMessaged.userMessage }),
+    agentMessaged: a => ({ ...base, type: 'agentMessage', message: a.agentMessaged.agentMessage }),
+    planGenerated: a => ({
+      ...base,
+      type: 'plan',
+      planId: a.planGenerated.plan.id,
+      steps: [...(a.planGenerated.plan.steps ?? [])].sort((x, y) => x.index - y.index),
+    }),
+    planApproved: a => ({ ...base, type: 'planApproved', planId: a.planApproved.planId }),
+    progressUpdated: a => ({ ...base, type: 'progress', title: a.progressUpdated.title, details: a.progressUpdated.description }),
+    sessionCompleted: () => ({ ...base, type: 'sessionCompleted' }),
+    sessionFailed: a => ({ ...base, type: 'sessionFailed', reason: a.sessionFailed.reason }),
+    unknown: () => ({ ...base, type: 'unknown' }),
+  });
+}
+
+/**
+ * Build the normalized transcript from a session and its activities
+ */
+export function buildTranscript(session: Session, activities: Activity[], options: TranscriptOptions = {}): Transcript {
+  const includeMediaData = options.includeMediaData ?? false;
+  // Compared as instants, timestamps vary in fractional precision ("10:00:00Z" vs "10:00:00.5Z");
+  // ties keep API order
+  const ordered = activities
+    .map((activity, position) => ({ activity, position, time: Date.parse(activity.createTime) }))
+    .sort((a, b) => a.time - b.time || a.position - b.position)
+    .map(({ activity }) => activity);
+
+  return {
+    session: {
+      id: session.id,
+      title: session.title,
+      state: session.state,
+      prompt: session.prompt,
+      source: session.sourceContext.source,
+      url: session.url,
+      createTime: session.createTime,
+      updateTime: session.updateTime,
+    },
+    entries: ordered.map(activity => toEntry(activity, includeMediaData)),
+    pullRequests: (session.outputs ?? [])
+      .map(output => output.pullRequest)
+      .filter((pr): pr is TranscriptPullRequest => pr !== undefined),
+  };
+}
+
+function fence(content: string, language = ''): string {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content.replace(/\n$/, '')}\n${marker}`;
+}
+
+function markdownArtifact(artifact: TranscriptArtifact): string {
+  switch (artifact.type) {
+    case 'bashOutput': {
+      const exit = artifact.exitCode !== undefined ? ` (exit code ${artifact.exitCode})` : '';
+      const body = [artifact.command ? `$ ${artifact.command}` : undefined, artifact.output].filter(Boolean).join('\n');
+      return `**Command${exit}**\n\n${fence(body, 'console')}`;
+    }
+    case 'diff': {
+      const message = artifact.suggestedCommitMessage ? `: ${artifact.suggestedCommitMessage}` : '';
+      return `**Changes** (${formatDiffStats(artifact.stats)})${message}\n\n${fence(artifact.patch, 'diff')}`;
+    }
+    case 'media':
+      return `**Media**: \`${artifact.fileName}\`${artifact.mimeType ? ` (${artifact.mimeType})` : ''}`;
+  }
+}
+
+function markdownEntryBody(entry: TranscriptEntry): { heading: string; body?: string } {
+  switch (entry.type) {
+    case 'userMessage':
+      return { heading: 'User', body: entry.message };
+    case 'agentMessage':
+      return { heading: 'Jules', body: entry.message };
+    case 'plan':
+      return {
+        heading: `Plan \`${entry.planId}\``,
+        body: entry.steps.map(step => `${step.index + 1}. **${step.title}**${step.description ? ` — ${step.description}` : ''}`).join('\n'),
+      };
+    case 'planApproved':
+      return { heading: `Plan \`${entry.planId}\` approved` };
+    case 'progress':
+      return { heading: `Progress: ${entry.title ?? 'update'}`, body: entry.details };
+    case 'sessionCompleted':
+      return { heading: 'Session completed' };
+    case 'sessionFailed':
+      return { heading: 'Session failed', body: entry.reason };
+    case 'unknown':
+      return { heading: 'Activity', body: entry.description };
+  }
+}
+
+/**
+ * Render a transcript as Markdown
+ */
+export function renderTranscriptMarkdown(transcript: Transcript): string {
+  const { session } = transcript;
+  const out: string[] = [
+    `# ${session.title ?? `Session ${session.id}`}`,
+    '',
+    `- **Session:** [${session.id}](${session.url})`,
+    `- **State:** ${session.state}`,
+    `- **Source:** ${session.source}`,
+    `- **Created:** ${session.createTime}`,
+    `- **Updated:** ${session.updateTime}`,
+    '',
+    '## Prompt',
+    '',
+    session.prompt,
+    '',
+    '## Activity',
+  ];
+
+  for (const entry of transcript.entries) {
+    const { heading, body } = markdownEntryBody(entry);
+    out.push('', `### ${heading}`, '', `_${entry.createTime} · ${entry.originator}_`);
+    if (body) out.push('', body);
+    for (const artifact of entry.artifacts) {
+      out.push('', markdownArtifact(artifact));
+    }
+  }
+
+  if (transcript.pullRequests.length > 0) {
+    out.push('', '## Pull Requests');
+    for (const pr of transcript.pullRequests) {
+      out.push('', `### [${pr.title}](${pr.url})`, '', pr.description);
+    }
+  }
+
+  return out.join('\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlDiff(patch: string): string {
+  return patch
+    .replace(/\n$/, '')
+    .split('\n')
+    .map(line => {
+      const kind = line.startsWith('+') && !line.startsWith('+++') ? 'add'
+        : line.startsWith('-') && !line.startsWith('---') ? 'del'
+        : line.startsWith('@@') ? 'hunk'
+        : undefined;
+      return kind ? `<span class="${kind}">${escapeHtml(line)}</span>` : escapeHtml(line);
+    })
+    .join('\n');
+}
+
+function htmlArtifact(artifact: TranscriptArtifact): string {
+  switch (artifact.type) {
+    case 'bashOutput': {
+      const exit = artifact.exitCode !== undefined
+        ? ` <span class="exit ${artifact.exitCode === 0 ? 'ok' : 'fail'}">exit ${artifact.exitCode}</span>`
+        : '';
+      const command = artifact.command ? `<span class="cmd">$ ${escapeHtml(artifact.command)}</span>\n` : '';
+      return `<div class="artifact"><h4>Command${exit}</h4><pre>${command}${escapeHtml(artifact.output ?? '')}</pre></div>`;
+    }
+    case 'diff': {
+      const message = artifact.suggestedCommitMessage ? `: ${escapeHtml(artifact.suggestedCommitMessage)}` : '';
+      return `<div class="artifact"><h4>Changes (${escapeHtml(formatDiffStats(artifact.stats))})${message}</h4><pre class="diff">${htmlDiff(artifact.patch)}</pre></div>`;
+    }
+    case 'media': {
+      const label = `${escapeHtml(artifact.fileName)}${artifact.mimeType ? ` (${escapeHtml(artifact.mimeType)})` : ''}`;
+      if (artifact.data && artifact.mimeType?.startsWith('image/')) {
+        return `<figure class="artifact"><img src="data:${escapeHtml(artifact.mimeType)};base64,${escapeHtml(artifact.data)}" alt="${escapeHtml(artifact.fileName)}"><figcaption>${label}</figcaption></figure>`;
+      }
+      return `<div class="artifact"><h4>Media</h4><p>${label}</p></div>`;
+    }
+  }
+}
+
+function htmlEntryBody(entry: TranscriptEntry): { heading: string; body?: string } {
+  switch (entry.type) {
+    case 'plan':
+      return {
+        heading: `Plan <code>${escapeHtml(entry.planId)}</code>`,
+        body: `<ol>${entry.steps.map(step => `<li><strong>${escapeHtml(step.title)}</strong>${step.description ? ` — ${escapeHtml(step.description)}` : ''}</li>`).join('')}</ol>`,
+      };
+    case 'planApproved':
+      return { heading: `Plan <code>${escapeHtml(entry.planId)}</code> approved` };
+    default: {
+      const { heading, body } = markdownEntryBody(entry);
+      return { heading: escapeHtml(heading), body: body ? `<p class="text">${escapeHtml(body)}</p>` : undefined };
+    }
+  }
+}
+
+const HTML_STYLE = `body{font-family:system-ui,sans-serif;max-width:960px;margin:2rem auto;padding:0 1rem;color:#1f2328}
+.entry{border-left:3px solid #d0d7de;padding:0 1rem;margin:1.5rem 0}
+.entry.userMessage{border-color:#0969da}.entry.agentMessage{border-color:#8250df}
+.entry.sessionCompleted{border-color:#1a7f37}.entry.sessionFailed{border-color:#cf222e}
+.meta{color:#656d76;font-size:.85em}.text{white-space:pre-wrap}
+pre{background:#f6f8fa;padding:.75rem;overflow-x:auto;font-size:.85em}
+.add{color:#1a7f37}.del{color:#cf222e}.hunk{color:#8250df}.cmd{font-weight:bold}
+.exit.ok{color:#1a7f37}.exit.fail{color:#cf222e}img{max-width:100%}`;
+
+/**
+ * Render a transcript as a standalone HTML document
+ */
+export function renderTranscriptHtml(transcript: Transcript): string {
+  const { session } = transcript;
+  const title = escapeHtml(session.title ?? `Session ${session.id}`);
+
+  const entries = transcript.entries.map(entry => {
+    const { heading, body } = htmlEntryBody(entry);
+    return [
+      `<section class="entry ${entry.type}">`,
+      `<h3>${heading}</h3>`,
+      `<div class="meta">${escapeHtml(entry.createTime)} · ${escapeHtml(entry.originator)}</div>`,
+      body ?? '',
+      ...entry.artifacts.map(htmlArtifact),
+      '</section>',
+    ].filter(Boolean).join('\n');
+  });
+
+  const pullRequests = transcript.pullRequests.map(pr =>
+    `<section class="entry"><h3><a href="${escapeHtml(pr.url)}">${escapeHtml(pr.title)}</a></h3><p class="text">${escapeHtml(pr.description)}</p></section>`
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<ul class="meta">
+<li>Session: <a href="${escapeHtml(session.url)}">${escapeHtml(session.id)}</a></li>
+<li>State: ${escapeHtml(session.state)}</li>
+<li>Source: ${escapeHtml(session.source)}</li>
+<li>Created: ${escapeHtml(session.createTime)} · Updated: ${escapeHtml(session.updateTime)}</li>
+</ul>
+<h2>Prompt</h2>
+<p class="text">${escapeHtml(session.prompt)}</p>
+<h2>Activity</h2>
+${entries.join('\n')}
+${pullRequests.length > 0 ? `<h2>Pull Requests</h2>\n${pullRequests.join('\n')}\n` : ''}</body>
+</html>
+`;
+}
+
+/**
+ * Render a transcript in the requested format
+ */
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderTranscriptMarkdown(transcript);
+    case 'html':
+      return renderTranscriptHtml(transcript);
+    case 'json':
+      return JSON.stringify(transcript, null, 2) + '\n';
+  }
+}
+
+/**
+ * Fetch a session with all its activities and render the transcript
+ */
+export async function exportSessionTranscript(
+  client: Pick<JulesClient, 'getSession' | 'iterateActivities'>,
+  sessionId: string,
+  format: TranscriptFormat,
+  options: TranscriptOptions = {}
+): Promise<string> {
+  const { includeMediaData = format === 'html', ...requestOptions } = options;
+  const session = await client.getSession(sessionId, requestOptions);
+  const activities = await client.iterateActivities(sessionId, requestOptions).toArray();
+  return renderTranscript(buildTranscript(session, activities, { includeMediaData }), format);
+}
@@ -0,0 +1,68 @@
+import type { AxiosInstance, AxiosStatic } from 'axios';
+import { AbortError, TransportError } from '../errors';
+import type { Transport, TransportRequest, TransportResponse } from './index';
+
+/**
+ * Whether the optional peer dependency axios can be loaded
+ */
+export function isAxiosAvailable(): boolean {
+  try {
+    require.resolve('axios');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Loaded lazily so that importing the SDK never pulls in axios (e.g. on Deno or edge runtimes with FetchTransport)
+function loadAxios(): AxiosStatic {
+  try {
+    return require('axios');
+  } catch (error) {
+    throw new Error(`AxiosTransport requires the optional peer dependency axios, install it or use transport: 'fetch' (${error instanceof Error ? error.message : String(error)})`);
+  }
+}
+
+/**
+ * Transport built on axios (an optional peer dependency, loaded on first use)
+ * Pass your own instance to reuse its agents, proxy settings or adapter
+ */
+export class AxiosTransport implements Transport {
+  private readonly axios: AxiosStatic;
+  private readonly instance: AxiosInstance;
+
+  constructor(instance?: AxiosInstance) {
+    this.axios = loadAxios();
+    this.instance = instance ?? this.axios.create();
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    try {
+      const res = await this.instance.request<string>({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.body,
+        timeout: request.timeout,
+        signal: request.signal,
+        responseType: 'text',
+        transformResponse: [data => data], // Keep the raw text; the client parses it
+        validateStatus: () => true,
+      });
+      const headers: Record<string, string> = {};
+      Object.entries((res.headers ?? {}) as Record<string, unknown>).forEach(([name, value]) => {
+        if (value !== undefined && value !== null) {
+          headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+      });
+      return { status: res.status, headers, body: typeof res.data === 'string' ? res.data : '' };
+    } catch (error) {
+      if (this.axios.isCancel(error) || request.signal?.aborted) {
+        throw new AbortError();
+      }
+      const code = this.axios.isAxiosError(error) ? error.code : undefined;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new TransportError(message, code === 'ECONNABORTED' || code === 'ETIMEDOUT' ? 'timeout' : 'network', error);
+    }
+  }
+}
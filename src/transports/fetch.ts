@@ -0,0 +1,66 @@
+import { AbortError, TransportError } from '../errors';
+import type { Transport, TransportRequest, TransportResponse } from './index';
+
+export interface FetchTransportOptions {
+  fetch?: typeof fetch; // Default: the global fetch
+  init?: Omit<RequestInit, 'method' | 'headers' | 'body' | 'signal'>; // Extra options for every request
+}
+
+/**
+ * Transport built on the Fetch API, with no dependency on axios
+ */
+export class FetchTransport implements Transport {
+  private readonly options: FetchTransportOptions;
+
+  constructor(options: FetchTransportOptions = {}) {
+    this.options = options;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const fetchImpl = this.options.fetch ?? globalThis.fetch;
+    if (typeof fetchImpl !== 'function') {
+      throw new TypeError('FetchTransport requires a global fetch (Node 18+) or the fetch option');
+    }
+    if (request.signal?.aborted) {
+      throw new AbortError();
+    }
+
+    // One controller for both the caller's signal and the timeout, so we can tell them apart
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = request.timeout
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, request.timeout)
+      : undefined;
+
+    try {
+      const res = await fetchImpl(request.url, {
+        ...this.options.init,
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
+      });
+      const headers: Record<string, string> = {};
+      res.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+      return { status: res.status, headers, body: await res.text() };
+    } catch (error) {
+      if (timedOut) {
+        throw new TransportError(`timeout of ${request.timeout}ms exceeded`, 'timeout', error);
+      }
+      if (request.signal?.aborted) {
+        throw new AbortError();
+      }
+      throw new TransportError(error instanceof Error ? error.message : String(error), 'network', error);
+    } finally {
+      if (timer) clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { AxiosTransport, isAxiosAvailable } from './axios';
+import { FetchTransport } from './fetch';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface TransportRequest {
+  method: HttpMethod;
+  url: string; // Absolute URL including the query string
+  headers: Record<string, string>;
+  body?: string; // JSON-encoded payload
+  timeout?: number; // Milliseconds, 0 disables the timeout
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  headers: Record<string, string>; // Lower-case names
+  body: string; // Raw response text, '' when empty
+}
+
+/**
+ * Performs a single HTTP exchange for the client
+ * Resolves for every HTTP status (retries, error mapping and validation happen above the transport);
+ * rejects with TransportError when no response was received, or AbortError when the signal aborts
+ */
+export interface Transport {
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * - 'axios': AxiosTransport with a fresh axios instance (default when axios is installed)
+ * - 'fetch': FetchTransport using the global fetch (Node 18+, Deno, browsers and edge runtimes)
+ * - or any Transport implementation
+ */
+export type TransportOption = Transport | 'axios' | 'fetch';
+
+/**
+ * axios is an optional peer dependency: without an explicit option, fall back to fetch when it is not installed
+ */
+export function resolveTransport(option?: TransportOption): Transport {
+  const resolved = option ?? (isAxiosAvailable() ? 'axios' : 'fetch');
+  switch (resolved) {
+    case 'axios':
+      return new AxiosTransport();
+    case 'fetch':
+      return new FetchTransport();
+    default:
+      return resolved;
+  }
+}
+
+export { AxiosTransport } from './axios';
+export { FetchTransport } from './fetch';
+export type { FetchTransportOptions } from './fetch';
@@ -12,30 +12,136 @@ export type {
   SessionState,
   AutomationMode,
   ListSessionsResponse,
+  PullRequest,
+  SessionOutput,
 } from './schemas/sessions';
 
 export type {
   Activity,
+  ActivityKind,
+  ActivityOf,
+  UnknownActivity,
+  RawActivity,
   ListActivitiesResponse,
   Artifact,
+  PlanStep,
+  ChangeSet,
+  GitPatch,
+  Media,
+  BashOutput,
 } from './schemas/activities';
 
+export type { ActivityHandlers } from './activity';
+
 export type {
   GoogleApiError,
   ErrorDetail,
 } from './schemas/errors';
 
+export type {
+  PaginationOptions,
+  Page,
+  PageFetcher,
+} from './pagination';
+
+export type { IterateOptions, IterateSourcesOptions } from './client';
+
+export type {
+  WatchSessionOptions,
+  SessionWatchEvent,
+  SessionWatchEventType,
+  SessionWatcherEvents,
+} from './watcher';
+
+export type { WaitForStateOptions } from './wait';
+
+export type {
+  Plan,
+  PlanDecision,
+  PlanApprovalPolicy,
+  ReviewPlanOptions,
+  PlanReviewResult,
+  PathGuardPolicyOptions,
+} from './plan-review';
+
+export type { Hunk, FilePatch, FileChangeType } from './unidiff';
+
+export type { DiffStats, FileDiffStats, PathPattern } from './diff-stats';
+
+export type {
+  MediaArtifact,
+  DecodeMediaOptions,
+  SaveMediaOptions,
+  SaveSessionMediaOptions,
+  SavedMedia,
+} from './media';
+
+export type {
+  ChangeSetArtifact,
+  SessionPatch,
+  ApplyPatchOptions,
+  ApplyPatchResult,
+} from './patches';
+
+export type {
+  FeedbackRequest,
+  RunSessionHandlers,
+  RunSessionOptions,
+  RunSessionResult,
+} from './run-session';
+
+export type {
+  Transcript,
+  TranscriptEntry,
+  TranscriptArtifact,
+  TranscriptPullRequest,
+  TranscriptFormat,
+  TranscriptOptions,
+} from './transcript';
+
 export type {
   RetryConfig,
   LoggerInterface,
+  HttpClient,
+  HttpRequest,
+  HttpResponse,
+  RequestOptions,
 } from './http';
 
-import type { RetryConfig, LoggerInterface } from './http';
+export type {
+  HttpMethod,
+  Transport,
+  TransportOption,
+  TransportRequest,
+  TransportResponse,
+  FetchTransportOptions,
+} from './transports';
+
+export type { ValidationMode } from './validation';
+
+export type { Middleware, MiddlewareNext } from './middleware';
+
+export type { TelemetryOptions, ValidationOutcome } from './telemetry';
+
+export type { RateLimiterOptions, RequestPriority, ScheduleOptions } from './rate-limiter';
+
+export type { CircuitBreakerOptions, CircuitState } from './circuit-breaker';
+
+export type { JulesClientPoolOptions, PoolKey, PoolKeyStats, PoolStrategy } from './client-pool';
+
+export type { CredentialsProvider, CachedCredentialsOptions, FileCredentialsOptions } from './credentials';
+
+export type { CacheOptions, CacheResource, CacheStats, CacheStore, CachedResponse } from './cache';
+
+export type { BatchOptions, BatchResult } from './batch';
+
+export type {
+  Cassette,
+  CassetteEntry,
+  CassetteMode,
+  CassetteOptions,
+  CassetteRequest,
+  CassetteResponse,
+} from './cassette';
 
-export interface JulesClientOptions {
-  apiKey: string;
-  baseUrl?: string;
-  timeout?: number;
-  retryConfig?: RetryConfig;
-  logger?: LoggerInterface;
-}
+export type { JulesClientOptions } from './client';
@@ -0,0 +1,176 @@
+export type FileChangeType = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+
+export interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section?: string; // Text after the closing @@, usually the enclosing function
+  lines: string[]; // Body lines including their ' ', '+', '-' or '\' prefix
+  additions: number;
+  deletions: number;
+}
+
+export interface FilePatch {
+  oldPath?: string; // Undefined for added files (/dev/null)
+  newPath?: string; // Undefined for deleted files (/dev/null)
+  changeType: FileChangeType;
+  binary: boolean;
+  similarity?: number; // Percentage reported for renames and copies
+  oldMode?: string;
+  newMode?: string;
+  headers: string[]; // Lines before the first hunk (diff --git, index, ---, +++, ...)
+  hunks: Hunk[];
+  additions: number;
+  deletions: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+const DIFF_GIT_HEADER = /^diff --git (?:"?a\/)?(.+?)"? (?:"?b\/)?(.+?)"?$/;
+
+function stripPrefix(path: string): string | undefined {
+  const trimmed = path.split('\t')[0].trim().replace(/^"(.*)"$/, '$1');
+  if (trimmed === '/dev/null') return undefined;
+  return trimmed.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff (as produced by `git diff`) into per-file patches
+ * Each file carries its change type, hunks with line ranges, and added/removed line counts
+ */
+export function parseUnidiff(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+
+  const files: FilePatch[] = [];
+  let file: FilePatch | undefined;
+  let hunk: Hunk | undefined;
+  let remainingOld = 0;
+  let remainingNew = 0;
+
+  const startFile = () => {
+    file = { changeType: 'modified', binary: false, headers: [], hunks: [], additions: 0, deletions: 0 };
+    hunk = undefined;
+    files.push(file);
+    return file;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Inside a hunk, consume body lines by count so content such as "--- x" is not mistaken for a header
+    if (hunk && (remainingOld > 0 || remainingNew > 0 || line.startsWith('\\'))) {
+      hunk.lines.push(line);
+      if (line.startsWith('+')) {
+        remainingNew--;
+        hunk.additions++;
+      } else if (line.startsWith('-')) {
+        remainingOld--;
+        hunk.deletions++;
+      } else if (!line.startsWith('\\')) {
+        remainingOld--;
+        remainingNew--;
+      }
+      continue;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      const current = startFile();
+      current.headers.push(line);
+      const match = DIFF_GIT_HEADER.exec(line);
+      if (match) {
+        current.oldPath = match[1];
+        current.newPath = match[2];
+      }
+      continue;
+    }
+
+    // Plain unified diffs without a "diff --git" line start directly with ---/+++
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ') && (!file || file.hunks.length > 0 || hunk)) {
+      startFile();
+    }
+
+    const hunkMatch = HUNK_HEADER.exec(line);
+    if (hunkMatch && file) {
+      hunk = {
+        oldStart: Number(hunkMatch[1]),
+        oldLines: hunkMatch[2] === undefined ? 1 : Number(hunkMatch[2]),
+        newStart: Number(hunkMatch[3]),
+        newLines: hunkMatch[4] === undefined ? 1 : Number(hunkMatch[4]),
+        section: hunkMatch[5] || undefined,
+        lines: [],
+        additions: 0,
+        deletions: 0,
+      };
+      remainingOld = hunk.oldLines;
+      remainingNew = hunk.newLines;
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!file) {
+      continue; // Preamble before the first file (e.g. commit message)
+    }
+    hunk = undefined;
+    file.headers.push(line);
+
+    if (line.startsWith('--- ')) {
+      file.oldPath = stripPrefix(line.slice(4));
+    } else if (line.startsWith('+++ ')) {
+      file.newPath = stripPrefix(line.slice(4));
+    } else if (line.startsWith('new file mode ')) {
+      file.oldPath = undefined;
+      file.newMode = line.slice('new file mode '.length);
+    } else if (line.startsWith('deleted file mode ')) {
+      file.newPath = undefined;
+      file.oldMode = line.slice('deleted file mode '.length);
+    } else if (line.startsWith('old mode ')) {
+      file.oldMode = line.slice('old mode '.length);
+    } else if (line.startsWith('new mode ')) {
+      file.newMode = line.slice('new mode '.length);
+    } else if (line.startsWith('rename from ') || line.startsWith('copy from ')) {
+      file.changeType = line.startsWith('rename') ? 'renamed' : 'copied';
+      file.oldPath = line.slice(line.indexOf(' from ') + 6);
+    } else if (line.startsWith('rename to ') || line.startsWith('copy to ')) {
+      file.newPath = line.slice(line.indexOf(' to ') + 4);
+    } else if (line.startsWith('similarity index ')) {
+      file.similarity = parseInt(line.slice('similarity index '.length), 10);
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.binary = true;
+    }
+  }
+
+  for (const parsed of files) {
+    parsed.additions = parsed.hunks.reduce((sum, h) => sum + h.additions, 0);
+    parsed.deletions = parsed.hunks.reduce((sum, h) => sum + h.deletions, 0);
+    if (parsed.oldPath === undefined) {
+      parsed.changeType = 'added';
+    } else if (parsed.newPath === undefined) {
+      parsed.changeType = 'deleted';
+    }
+  }
+
+  return files;
+}
+
+/** Path identifying the file in the resulting tree (old path for deletions) */
+export function filePatchPath(file: FilePatch): string {
+  return (file.newPath ?? file.oldPath)!;
+}
+
+/**
+ * Render file patches back into a unified diff
+ */
+export function formatUnidiff(files: FilePatch[]): string {
+  const out: string[] = [];
+  for (const file of files) {
+    out.push(...file.headers);
+    for (const hunk of file.hunks) {
+      const oldRange = hunk.oldLines === 1 ? `${hunk.oldStart}` : `${hunk.oldStart},${hunk.oldLines}`;
+      const newRange = hunk.newLines === 1 ? `${hunk.newStart}` : `${hunk.newStart},${hunk.newLines}`;
+      out.push(`@@ -${oldRange} +${newRange} @@${hunk.section ? ` ${hunk.section}` : ''}`);
+      out.push(...hunk.lines);
+    }
+  }
+  return out.length > 0 ? out.join('\n') + '\n' : '';
+}
@@ -0,0 +1,159 @@
+import { ZodSchema } from 'zod';
+import { SourceSchema, ListSourcesResponseSchema } from './schemas/sources';
+import {
+  SessionSchema,
+  LenientSessionSchema,
+  ListSessionsResponseSchema,
+  LenientListSessionsResponseSchema,
+} from './schemas/sessions';
+import {
+  ActivitySchema,
+  LenientActivitySchema,
+  ListActivitiesResponseSchema,
+  LenientListActivitiesResponseSchema,
+  tagActivityKind,
+} from './schemas/activities';
+import type { LoggerInterface } from './http';
+import type { Source, ListSourcesResponse, Session, ListSessionsResponse, Activity, ListActivitiesResponse } from './types';
+
+/**
+ * How API responses are checked against the schemas
+ * - strict: reject unknown session fields and activities without a known content field
+ * - lenient: keep unknown fields and enum values, surface unknown activities as kind 'unknown', log what was not recognised
+ * - off: no validation, responses are passed through (activities are still tagged with their kind)
+ */
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+/**
+ * Schemas for one response type under each validation mode
+ */
+export interface ResponseSchemas<T> {
+  strict: ZodSchema<T>;
+  lenient: ZodSchema<T>;
+  unchecked?: (data: unknown) => T; // Normalization applied when validation is off
+}
+
+function tagActivities(data: unknown): ListActivitiesResponse {
+  const response = data as ListActivitiesResponse;
+  return response.activities
+    ? { ...response, activities: response.activities.map(activity => tagActivityKind(activity)) }
+    : response;
+}
+
+export const RESPONSE_SCHEMAS: {
+  source: ResponseSchemas<Source>;
+  listSources: ResponseSchemas<ListSourcesResponse>;
+  session: ResponseSchemas<Session>;
+  listSessions: ResponseSchemas<ListSessionsResponse>;
+  activity: ResponseSchemas<Activity>;
+  listActivities: ResponseSchemas<ListActivitiesResponse>;
+} = {
+  source: { strict: SourceSchema, lenient: SourceSchema },
+  listSources: { strict: ListSourcesResponseSchema, lenient: ListSourcesResponseSchema },
+  session: { strict: SessionSchema, lenient: LenientSessionSchema },
+  listSessions: { strict: ListSessionsResponseSchema, lenient: LenientListSessionsResponseSchema },
+  activity: {
+    strict: ActivitySchema,
+    lenient: LenientActivitySchema,
+    unchecked: data => tagActivityKind(data as Record<string, unknown>),
+  },
+  listActivities: { strict: ListActivitiesResponseSchema, lenient: LenientListActivitiesResponseSchema, unchecked: tagActivities },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Copy fields that the schema stripped from the raw response back onto the parsed value
+ * Paths of the restored fields are appended to unknownPaths, e.g. "sessions[0].newField"
+ */
+export function preserveUnknownFields(raw: unknown, parsed: unknown, path: string, unknownPaths: string[]): unknown {
+  if (Array.isArray(raw) && Array.isArray(parsed)) {
+    return parsed.map((item, i) => preserveUnknownFields(raw[i], item, `${path}[${i}]`, unknownPaths));
+  }
+  if (!isPlainObject(raw) || !isPlainObject(parsed)) {
+    return parsed;
+  }
+
+  const result: Record<string, unknown> = { ...parsed };
+  for (const key of Object.keys(raw)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (key in parsed) {
+      result[key] = preserveUnknownFields(raw[key], parsed[key], fieldPath, unknownPaths);
+    } else {
+      result[key] = raw[key];
+      unknownPaths.push(fieldPath);
+    }
+  }
+  return result;
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>(
+    (result, key) => (typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${String(key)}` : String(key)),
+    ''
+  );
+}
+
+/**
+ * Enum values the strict schema does not know, e.g. "sessions[0].state: ARCHIVED"
+ */
+function unknownEnumValues(data: unknown, strict: ZodSchema<unknown>): string[] {
+  const parsed = strict.safeParse(data);
+  if (parsed.success) {
+    return [];
+  }
+  return parsed.error.issues
+    .filter(issue => issue.code === 'invalid_value')
+    .map(issue => {
+      const value = issue.path.reduce<any>((node, key) => node?.[key as keyof typeof node], data);
+      return `${formatPath(issue.path)}: ${String(value)}`;
+    });
+}
+
+/**
+ * Validate a response body according to the validation mode
+ * @throws Error with responseData and zodError attached when validation fails
+ */
+export function parseResponse<T>(
+  data: unknown,
+  schema: ResponseSchemas<T> | ZodSchema<T>,
+  mode: ValidationMode,
+  logger?: LoggerInterface,
+  url?: string
+): T {
+  const schemas: ResponseSchemas<T> = 'safeParse' in schema ? { strict: schema, lenient: schema } : schema;
+
+  if (mode === 'off') {
+    return schemas.unchecked ? schemas.unchecked(data) : (data as T);
+  }
+
+  const parsed = (mode === 'lenient' ? schemas.lenient : schemas.strict).safeParse(data);
+  if (!parsed.success) {
+    const err = new Error('Response validation failed: ' + parsed.error.message);
+    // Attach raw data for debugging
+    (err as any).responseData = data;
+    (err as any).zodError = parsed.error;
+    logger?.error('Response validation failed', {
+      url,
+      error: parsed.error.message,
+    });
+    throw err;
+  }
+
+  if (mode === 'strict') {
+    return parsed.data;
+  }
+
+  const unknownPaths: string[] = [];
+  const result = preserveUnknownFields(data, parsed.data, '', unknownPaths) as T;
+  if (unknownPaths.length > 0) {
+    logger?.warn('Response contains fields unknown to this SDK version', { url, fields: unknownPaths });
+  }
+  const unknownValues = logger ? unknownEnumValues(data, schemas.strict) : [];
+  if (unknownValues.length > 0) {
+    logger?.warn('Response contains enum values unknown to this SDK version', { url, values: unknownValues });
+  }
+  return result;
+}
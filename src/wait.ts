@@ -0,0 +1,94 @@
+import { abortableSleep, throwIfAborted, timeoutSignal } from './abort';
+import { SessionFailedError, UnexpectedSessionStateError, WaitTimeoutError } from './errors';
+import { isTerminalState } from './session-state';
+import type { JulesClient } from './client';
+import type { RequestOptions } from './http';
+import type { Session, SessionState } from './schemas/sessions';
+
+export interface WaitForStateOptions extends RequestOptions {
+  pollIntervalMs?: number; // Default: 5000
+  timeoutMs?: number; // Overall timeout, default: wait indefinitely
+}
+
+type WaitClient = Pick<JulesClient, 'getSession' | 'iterateActivities'>;
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Poll a session until it reaches one of the target states
+ * Rejects with SessionFailedError on FAILED, UnexpectedSessionStateError when the
+ * session ends in another terminal state, WaitTimeoutError or AbortError
+ */
+export async function waitForSessionState(
+  client: WaitClient,
+  sessionId: string,
+  states: SessionState | SessionState[],
+  options: WaitForStateOptions = {}
+): Promise<Session> {
+  const targets = Array.isArray(states) ? states : [states];
+  const { pollIntervalMs = DEFAULT_POLL_INTERVAL_MS, timeoutMs, ...requestOptions } = options;
+  const { signal } = requestOptions;
+  const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : Infinity;
+  let lastState: SessionState | undefined;
+
+  // Bounds each call by the overall deadline, so a slow or retried request cannot overrun it
+  const beforeDeadline = async <T>(call: (callOptions: RequestOptions) => Promise<T>): Promise<T> => {
+    if (deadline === Infinity) {
+      return call(requestOptions);
+    }
+    const limit = timeoutSignal(deadline - Date.now(), signal);
+    try {
+      return await call({ ...requestOptions, signal: limit.signal });
+    } catch (error) {
+      if (limit.timedOut()) {
+        throw new WaitTimeoutError(sessionId, timeoutMs!, lastState);
+      }
+      throw error;
+    } finally {
+      limit.dispose();
+    }
+  };
+
+  for (;;) {
+    throwIfAborted(signal);
+    const session = await beforeDeadline(callOptions => client.getSession(sessionId, callOptions));
+    lastState = session.state;
+
+    if (targets.includes(session.state)) {
+      return session;
+    }
+    if (session.state === 'FAILED') {
+      const reason = await beforeDeadline(callOptions => findFailureReason(client, sessionId, callOptions));
+      throw new SessionFailedError(session, reason);
+    }
+    if (isTerminalState(session.state)) {
+      throw new UnexpectedSessionStateError(session, targets);
+    }
+
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      throw new WaitTimeoutError(sessionId, timeoutMs!, lastState);
+    }
+    await abortableSleep(Math.min(pollIntervalMs, remainingMs), signal);
+    if (Date.now() >= deadline) {
+      throw new WaitTimeoutError(sessionId, timeoutMs!, lastState);
+    }
+  }
+}
+
+/**
+ * Reason recorded on the most recent sessionFailed activity, if any
+ */
+async function findFailureReason(
+  client: WaitClient,
+  sessionId: string,
+  options: RequestOptions
+): Promise<string | undefined> {
+  let reason: string | undefined;
+  for await (const activity of client.iterateActivities(sessionId, options)) {
+    if (activity.sessionFailed) {
+      reason = activity.sessionFailed.reason;
+    }
+  }
+  return reason;
+}
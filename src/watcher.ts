@@ -0,0 +1,318 @@
+import { EventEmitter } from 'events';
+import { abortableSleep } from './abort';
+import { AbortError, InvalidArgumentError } from './errors';
+import { isTerminalState } from './session-state';
+import type { JulesClient } from './client';
+import type { RequestOptions } from './http';
+import type { Session, SessionState } from './schemas/sessions';
+import type { Activity } from './schemas/activities';
+
+export interface WatchSessionOptions extends RequestOptions {
+  minIntervalMs?: number; // Default: 2000 - poll interval right after a change
+  maxIntervalMs?: number; // Default: 30000 - poll interval ceiling while nothing changes
+  backoffFactor?: number; // Default: 1.5 - interval multiplier after an idle poll
+  stopOnTerminal?: boolean; // Default: true - stop once the session is COMPLETED or FAILED
+}
+
+type ActivityPlan = NonNullable<Activity['planGenerated']>['plan'];
+
+export type SessionWatchEvent =
+  | { type: 'stateChanged'; session: Session; state: SessionState; previousState?: SessionState }
+  | { type: 'activity'; activity: Activity }
+  | { type: 'userMessaged'; activity: Activity; message: string }
+  | { type: 'agentMessaged'; activity: Activity; message: string }
+  | { type: 'planGenerated'; activity: Activity; plan: ActivityPlan }
+  | { type: 'planApproved'; activity: Activity; planId: string }
+  | { type: 'progressUpdated'; activity: Activity; title?: string; description?: string }
+  | { type: 'sessionCompleted'; activity: Activity }
+  | { type: 'sessionFailed'; activity: Activity; reason?: string };
+
+export type SessionWatchEventType = SessionWatchEvent['type'];
+
+export type SessionWatcherEvents = {
+  [K in SessionWatchEventType]: (event: Extract<SessionWatchEvent, { type: K }>) => void;
+} & {
+  error: (error: unknown) => void; // Only emitted while an 'error' listener is attached
+  end: (error?: unknown) => void; // Receives the polling error, if polling failed
+};
+
+type WatchedClient = Pick<JulesClient, 'getSession' | 'iterateActivities'>;
+
+const DEFAULT_WATCH_OPTIONS = {
+  minIntervalMs: 2000,
+  maxIntervalMs: 30000,
+  backoffFactor: 1.5,
+  stopOnTerminal: true,
+};
+
+export interface SessionWatcher {
+  on<K extends keyof SessionWatcherEvents>(event: K, listener: SessionWatcherEvents[K]): this;
+  once<K extends keyof SessionWatcherEvents>(event: K, listener: SessionWatcherEvents[K]): this;
+  off<K extends keyof SessionWatcherEvents>(event: K, listener: SessionWatcherEvents[K]): this;
+  emit<K extends keyof SessionWatcherEvents>(event: K, ...args: Parameters<SessionWatcherEvents[K]>): boolean;
+}
+
+/**
+ * Polls a session and its activities, emitting each activity exactly once
+ * Consume it as an EventEmitter or with `for await (const event of watcher)`
+ * Polling starts on the next microtask so listeners can be attached first
+ */
+export class SessionWatcher extends EventEmitter implements AsyncIterable<SessionWatchEvent> {
+  private readonly settings: typeof DEFAULT_WATCH_OPTIONS;
+  private readonly controller = new AbortController();
+  private readonly seenActivityIds = new Set<string>();
+  private readonly subscribers = new Set<EventQueue>();
+  private readonly signal?: AbortSignal;
+  private readonly requestOptions: RequestOptions; // Applied to every poll, with the watcher's own signal
+  private readonly onAbort = () => this.stop();
+  private state?: SessionState;
+  private stopped = false;
+  private ended = false;
+  private failure?: { error: unknown }; // Kept for iterators created after the watcher failed
+  private resumePageToken?: string; // Token of the last activity page read
+
+  constructor(
+    private readonly client: WatchedClient,
+    readonly sessionId: string,
+    options: WatchSessionOptions = {}
+  ) {
+    super();
+    const { minIntervalMs, maxIntervalMs, backoffFactor, stopOnTerminal, signal, ...requestOptions } = options;
+    this.signal = signal;
+    this.requestOptions = requestOptions;
+    this.settings = {
+      minIntervalMs: options.minIntervalMs ?? DEFAULT_WATCH_OPTIONS.minIntervalMs,
+      maxIntervalMs: options.maxIntervalMs ?? DEFAULT_WATCH_OPTIONS.maxIntervalMs,
+      backoffFactor: options.backoffFactor ?? DEFAULT_WATCH_OPTIONS.backoffFactor,
+      stopOnTerminal: options.stopOnTerminal ?? DEFAULT_WATCH_OPTIONS.stopOnTerminal,
+    };
+
+    if (signal?.aborted) {
+      this.stopped = true;
+    } else {
+      signal?.addEventListener('abort', this.onAbort, { once: true });
+    }
+    Promise.resolve().then(() => this.run());
+  }
+
+  /** Last known state of the session */
+  get currentState(): SessionState | undefined {
+    return this.state;
+  }
+
+  get isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Stop polling; pending iterators finish and 'end' is emitted
+   */
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.signal?.removeEventListener('abort', this.onAbort);
+    this.controller.abort();
+  }
+
+  /**
+   * Iterate events from now on; ending the loop early stops the watcher unless
+   * other iterators or listeners still consume it
+   */
+  [Symbol.asyncIterator](): AsyncIterator<SessionWatchEvent> {
+    const queue = new EventQueue(() => {
+      this.subscribers.delete(queue);
+      if (this.subscribers.size === 0 && !this.hasEventListeners()) {
+        this.stop();
+      }
+    });
+    if (this.failure) {
+      queue.fail(this.failure.error);
+    } else if (this.ended) {
+      queue.close();
+    } else {
+      this.subscribers.add(queue);
+    }
+    return queue;
+  }
+
+  private async run(): Promise<void> {
+    let intervalMs = this.settings.minIntervalMs;
+
+    try {
+      while (!this.stopped) {
+        const changed = await this.poll();
+        if (this.stopped) break;
+        if (this.settings.stopOnTerminal && this.state && isTerminalState(this.state)) break;
+
+        intervalMs = changed
+          ? this.settings.minIntervalMs
+          : Math.min(intervalMs * this.settings.backoffFactor, this.settings.maxIntervalMs);
+        await abortableSleep(intervalMs, this.controller.signal);
+      }
+    } catch (error) {
+      if (!(error instanceof AbortError)) {
+        this.failure = { error };
+      }
+    }
+
+    this.stopped = true;
+    this.ended = true;
+    this.signal?.removeEventListener('abort', this.onAbort);
+    if (this.failure) {
+      const { error } = this.failure;
+      this.subscribers.forEach(queue => queue.fail(error));
+      // EventEmitter throws on unhandled 'error' events; without a listener the error is passed to 'end'
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error);
+      }
+      this.emit('end', error);
+    } else {
+      this.subscribers.forEach(queue => queue.close());
+      this.emit('end');
+    }
+  }
+
+  /**
+   * Fetch the session and any unseen activities; resolves true if anything changed
+   */
+  private async poll(): Promise<boolean> {
+    const session = await this.client.getSession(this.sessionId, { ...this.requestOptions, signal: this.controller.signal });
+    // Activities are read after the session so a terminal state never misses its final activities
+    let changed = await this.readActivities();
+
+    if (session.state !== this.state) {
+      const previousState = this.state;
+      this.state = session.state;
+      changed = true;
+      this.publish({ type: 'stateChanged', session, state: session.state, previousState });
+    }
+
+    return changed;
+  }
+
+  /**
+   * Dispatch unseen activities; resolves true if there were any
+   * Reading resumes at the last page seen, since new activities are appended after it
+   */
+  private async readActivities(): Promise<boolean> {
+    let pageToken = this.resumePageToken;
+    let changed = false;
+    try {
+      const pages = this.client
+        .iterateActivities(this.sessionId, { ...this.requestOptions, pageToken, signal: this.controller.signal })
+        .pages();
+      for await (const page of pages) {
+        for (const activity of page.items) {
+          if (this.seenActivityIds.has(activity.id)) continue;
+          this.seenActivityIds.add(activity.id);
+          changed = true;
+          this.dispatchActivity(activity);
+        }
+        pageToken = page.nextPageToken ?? pageToken;
+      }
+    } catch (error) {
+      if (!(error instanceof InvalidArgumentError) || this.resumePageToken === undefined) {
+        throw error;
+      }
+      // The saved page token expired: read the whole list again, seen activities are skipped
+      this.resumePageToken = undefined;
+      return (await this.readActivities()) || changed;
+    }
+    this.resumePageToken = pageToken;
+    return changed;
+  }
+
+  private dispatchActivity(activity: Activity): void {
+    this.publish({ type: 'activity', activity });
+
+    if (activity.userMessaged) {
+      this.publish({ type: 'userMessaged', activity, message: activity.userMessaged.userMessage });
+    }
+    if (activity.agentMessaged) {
+      this.publish({ type: 'agentMessaged', activity, message: activity.agentMessaged.agentMessage });
+    }
+    if (activity.planGenerated) {
+      this.publish({ type: 'planGenerated', activity, plan: activity.planGenerated.plan });
+    }
+    if (activity.planApproved) {
+      this.publish({ type: 'planApproved', activity, planId: activity.planApproved.planId });
+    }
+    if (activity.progressUpdated) {
+      const { title, description } = activity.progressUpdated;
+      this.publish({ type: 'progressUpdated', activity, title, description });
+    }
+    if (activity.sessionCompleted) {
+      this.publish({ type: 'sessionCompleted', activity });
+    }
+    if (activity.sessionFailed) {
+      this.publish({ type: 'sessionFailed', activity, reason: activity.sessionFailed.reason });
+    }
+  }
+
+  private publish(event: SessionWatchEvent): void {
+    this.subscribers.forEach(queue => queue.push(event));
+    (this.emit as (type: string, event: SessionWatchEvent) => boolean)(event.type, event);
+  }
+
+  // Listeners of watch events, as opposed to 'end' and 'error' only
+  private hasEventListeners(): boolean {
+    return this.eventNames().some(name => name !== 'end' && name !== 'error');
+  }
+}
+
+/**
+ * Buffers watcher events for a single async iterator
+ */
+class EventQueue implements AsyncIterator<SessionWatchEvent> {
+  private readonly buffer: SessionWatchEvent[] = [];
+  private readonly waiting: Array<{
+    resolve: (result: IteratorResult<SessionWatchEvent>) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private done = false;
+  private error?: { value: unknown };
+
+  constructor(private readonly onReturn: () => void) {}
+
+  push(event: SessionWatchEvent): void {
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter.resolve({ value: event, done: false });
+    } else {
+      this.buffer.push(event);
+    }
+  }
+
+  close(): void {
+    this.done = true;
+    this.waiting.splice(0).forEach(waiter => waiter.resolve({ value: undefined, done: true }));
+  }
+
+  fail(error: unknown): void {
+    this.error = { value: error };
+    this.done = true;
+    this.waiting.splice(0).forEach(waiter => waiter.reject(error));
+  }
+
+  next(): Promise<IteratorResult<SessionWatchEvent>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift()!, done: false });
+    }
+    if (this.error) {
+      const { value } = this.error;
+      this.error = undefined;
+      return Promise.reject(value);
+    }
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  return(): Promise<IteratorResult<SessionWatchEvent>> {
+    this.close();
+    this.buffer.length = 0;
+    this.onReturn();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { matchActivity, isActivityKind, isPlanGenerated, isSessionFailed } from '../src/activity';
+import { ActivitySchema, LenientActivitySchema } from '../src/schemas/activities';
+import type { ActivityHandlers, RawActivity } from '../src/types';
+
+function parse(fields: Partial<RawActivity>) {
+  return ActivitySchema.parse({
+    name: 'sessions/sess1/activities/act1',
+    id: 'act1',
+    createTime: '2025-10-17T10:00:00Z',
+    originator: 'agent',
+    ...fields,
+  });
+}
+
+const handlers: ActivityHandlers<string> = {
+  agentMessaged: () => 'agent',
+  userMessaged: () => 'user',
+  planGenerated: () => 'plan',
+  planApproved: () => 'approved',
+  progressUpdated: () => 'progress',
+  sessionCompleted: () => 'completed',
+  sessionFailed: () => 'failed',
+  unknown: () => 'unknown',
+};
+
+describe('Activity kind', () => {
+  it('should tag parsed activities with the kind of their content field', () => {
+    expect(parse({ agentMessaged: { agentMessage: 'hi' } }).kind).toBe('agentMessaged');
+    expect(parse({ sessionFailed: { reason: 'boom' } }).kind).toBe('sessionFailed');
+    expect(parse({ sessionCompleted: {} }).kind).toBe('sessionCompleted');
+  });
+
+  it('should narrow with type guards', () => {
+    const activity = parse({ planGenerated: { plan: { id: 'plan1' } } });
+
+    expect(isPlanGenerated(activity)).toBe(true);
+    expect(isSessionFailed(activity)).toBe(false);
+    expect(isActivityKind(activity, 'planGenerated')).toBe(true);
+    if (isPlanGenerated(activity)) {
+      expect(activity.planGenerated.plan.id).toBe('plan1');
+    }
+  });
+
+  it('should dispatch to the handler for the activity kind', () => {
+    expect(matchActivity(parse({ userMessaged: { userMessage: 'go' } }), handlers)).toBe('user');
+    expect(matchActivity(parse({ progressUpdated: { title: 'Working' } }), {
+      ...handlers,
+      progressUpdated: activity => activity.progressUpdated.title ?? '',
+    })).toBe('Working');
+    const future = LenientActivitySchema.parse({
+      name: 'sessions/sess1/activities/act2',
+      id: 'act2',
+      createTime: '2025-10-17T10:00:00Z',
+      originator: 'agent',
+      futureEvent: {},
+    });
+    expect(matchActivity(future, handlers)).toBe('unknown');
+  });
+});
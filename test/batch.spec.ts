@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JulesClient } from '../src/client';
+import { AbortError, NotFoundError } from '../src/errors';
+import type { TransportRequest, TransportResponse } from '../src/transports';
+
+const BASE_URL = 'https://jules.googleapis.com/v1alpha';
+
+function session(id: string) {
+  return {
+    name: `sessions/${id}`,
+    id,
+    createTime: '2025-10-17T10:00:00Z',
+    updateTime: '2025-10-17T10:00:00Z',
+    state: 'IN_PROGRESS',
+    url: `https://jules.google.com/session/${id}`,
+    prompt: 'Fix the bug',
+    sourceContext: { source: 'sources/github/owner/repo' },
+  };
+}
+
+function activity(id: string) {
+  return {
+    name: `sessions/sess1/activities/${id}`,
+    id,
+    createTime: '2025-10-17T10:00:00Z',
+    originator: 'agent',
+    progressUpdated: { title: 'Planning' },
+  };
+}
+
+const notFound: TransportResponse = {
+  status: 404,
+  headers: {},
+  body: JSON.stringify({ error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } }),
+};
+
+describe('request de-duplication and batching', () => {
+  let inFlight: number;
+  let maxInFlight: number;
+  let transport: { request: ReturnType<typeof vi.fn> };
+  let client: JulesClient;
+
+  beforeEach(() => {
+    inFlight = 0;
+    maxInFlight = 0;
+    transport = {
+      request: vi.fn(async (request: TransportRequest): Promise<TransportResponse> => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight -= 1;
+
+        const id = request.url.split('/').pop()!;
+        if (id.startsWith('missing')) return notFound;
+        const data = request.url.includes('/activities/') ? activity(id) : request.method === 'POST' ? {} : session(id);
+        return { status: 200, headers: {}, body: JSON.stringify(data) };
+      }),
+    };
+    client = new JulesClient({ apiKey: 'test-key', transport });
+  });
+
+  it('should coalesce concurrent identical GET requests', async () => {
+    const [a, b, c] = await Promise.all([client.getSession('sess1'), client.getSession('sess1'), client.getSession('sess1')]);
+
+    expect(transport.request).toHaveBeenCalledTimes(1);
+    expect(a).toEqual(session('sess1'));
+    expect(b).toEqual(a);
+    expect(b).not.toBe(a); // Each caller gets its own parsed copy
+
+    await client.getSession('sess1');
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not coalesce different URLs, params or mutations', async () => {
+    await Promise.all([
+      client.getSession('sess1'),
+      client.getSession('sess2'),
+      client.listSessions(10),
+      client.listSessions(20),
+      client.approvePlan('sess1'),
+      client.approvePlan('sess1'),
+    ]);
+
+    expect(transport.request).toHaveBeenCalledTimes(6);
+  });
+
+  it('should share a request between callers with their own signals', async () => {
+    const controller = new AbortController();
+    const aborted = client.getSession('sess1', { signal: controller.signal });
+    const kept = client.getSession('sess1', { signal: new AbortController().signal });
+    await new Promise(resolve => setTimeout(resolve, 1));
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    await expect(kept).resolves.toEqual(session('sess1'));
+    expect(transport.request).toHaveBeenCalledTimes(1);
+    expect(transport.request.mock.calls[0][0].signal.aborted).toBe(false);
+  });
+
+  it('should abort a shared request once every caller has aborted', async () => {
+    const controllers = [new AbortController(), new AbortController()];
+    const results = Promise.allSettled(controllers.map(controller => client.getSession('sess1', { signal: controller.signal })));
+    await new Promise(resolve => setTimeout(resolve, 1));
+    controllers.forEach(controller => controller.abort());
+
+    expect((await results).map(r => r.status === 'rejected' && r.reason instanceof AbortError)).toEqual([true, true]);
+    expect(transport.request.mock.calls[0][0].signal.aborted).toBe(true);
+  });
+
+  it('should share the polls of two watchers on the same session', async () => {
+    transport.request.mockImplementation(async (request: TransportRequest): Promise<TransportResponse> => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const data = request.url.includes('/activities') ? { activities: [activity('act1')] } : { ...session('sess1'), state: 'COMPLETED' };
+      return { status: 200, headers: {}, body: JSON.stringify(data) };
+    });
+    const watch = async () => {
+      const types: string[] = [];
+      for await (const event of client.watchSession('sess1')) types.push(event.type);
+      return types;
+    };
+
+    const [first, second] = await Promise.all([watch(), watch()]);
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+    expect(first).toEqual(['activity', 'progressUpdated', 'stateChanged']);
+    expect(second).toEqual(first);
+  });
+
+  it('should reject every caller of a failed shared request', async () => {
+    const results = await Promise.allSettled([client.getSession('missing'), client.getSession('missing')]);
+
+    expect(transport.request).toHaveBeenCalledTimes(1);
+    expect(results.map(r => r.status === 'rejected' && r.reason instanceof NotFoundError)).toEqual([true, true]);
+  });
+
+  it('should return per-item results from getSessions with bounded concurrency', async () => {
+    const results = await client.getSessions(['s1', 'missing-1', 's2', 's3', 's4', 's1'], { concurrency: 2 });
+
+    expect(maxInFlight).toBe(2);
+    expect(results.map(r => [r.id, r.status])).toEqual([
+      ['s1', 'fulfilled'],
+      ['missing-1', 'rejected'],
+      ['s2', 'fulfilled'],
+      ['s3', 'fulfilled'],
+      ['s4', 'fulfilled'],
+      ['s1', 'fulfilled'],
+    ]);
+    expect(results[0]).toEqual({ id: 's1', status: 'fulfilled', value: session('s1') });
+    expect(results[1].status === 'rejected' && results[1].reason).toBeInstanceOf(NotFoundError);
+  });
+
+  it('should fetch activities of a session in a batch', async () => {
+    const results = await client.getActivities('sess1', ['act1', 'act2']);
+
+    expect(results).toEqual([
+      { id: 'act1', status: 'fulfilled', value: { ...activity('act1'), kind: 'progressUpdated' } },
+      { id: 'act2', status: 'fulfilled', value: { ...activity('act2'), kind: 'progressUpdated' } },
+    ]);
+    expect(transport.request.mock.calls.map(([request]) => request.url)).toEqual([
+      `${BASE_URL}/sessions/sess1/activities/act1`,
+      `${BASE_URL}/sessions/sess1/activities/act2`,
+    ]);
+  });
+
+  it('should stop starting requests once aborted', async () => {
+    const controller = new AbortController();
+    transport.request.mockImplementationOnce(async () => {
+      controller.abort();
+      return { status: 503, headers: {}, body: '' };
+    });
+
+    const results = await client.getSessions(['s1', 's2', 's3'], { concurrency: 1, signal: controller.signal });
+
+    expect(transport.request).toHaveBeenCalledTimes(1);
+    // The first call is aborted while in flight instead of waiting for its response
+    expect(results.map(r => r.status === 'rejected' && (r.reason as Error).constructor)).toEqual([AbortError, AbortError, AbortError]);
+  });
+
+  it('should reject an invalid concurrency', async () => {
+    await expect(client.getSessions(['s1'], { concurrency: 0 })).rejects.toThrow(RangeError);
+  });
+});
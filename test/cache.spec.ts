@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JulesClient } from '../src/client';
+import { FileCacheStore, MemoryCacheStore, ResponseCache } from '../src/cache';
+import type { TransportRequest, TransportResponse } from '../src/transports';
+
+const BASE_URL = 'https://jules.googleapis.com/v1alpha';
+const source = { name: 'sources/github/owner/repo', id: 'github/owner/repo' };
+const activity = {
+  name: 'sessions/sess1/activities/act1',
+  id: 'act1',
+  createTime: '2025-10-17T10:00:00Z',
+  originator: 'agent',
+  progressUpdated: { title: 'Planning', description: 'Creating plan' },
+};
+
+function session(state: string) {
+  return {
+    name: 'sessions/sess1',
+    id: 'sess1',
+    createTime: '2025-10-17T10:00:00Z',
+    updateTime: '2025-10-17T10:00:00Z',
+    state,
+    url: 'https://jules.google.com/session/sess1',
+    prompt: 'Fix the bug',
+    sourceContext: { source: 'sources/github/owner/repo' },
+  };
+}
+
+describe('ResponseCache', () => {
+  let state: string;
+  let transport: { request: ReturnType<typeof vi.fn> };
+
+  const requested = () => transport.request.mock.calls.map(([request]) => request.url.slice(BASE_URL.length));
+
+  beforeEach(() => {
+    state = 'IN_PROGRESS';
+    transport = {
+      request: vi.fn(async (request: TransportRequest): Promise<TransportResponse> => {
+        const url = request.url.slice(BASE_URL.length);
+        const data = url.startsWith('/sources')
+          ? source
+          : url.includes('/activities/') ? activity
+          : url.includes('/activities') ? { activities: [activity] }
+          : request.method === 'POST' ? {} : session(state);
+        return { status: 200, headers: { etag: `"${state}"` }, body: JSON.stringify(data) };
+      }),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should serve sources from the cache until their TTL expires', async () => {
+    vi.useFakeTimers();
+    const client = new JulesClient({ apiKey: 'test-key', transport, cache: { ttlMs: { source: 1000 } } });
+
+    expect(await client.getSource('github/owner/repo')).toEqual(source);
+    expect(await client.getSource('github/owner/repo')).toEqual(source);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+    await client.getSource('github/owner/repo');
+    expect(transport.request).toHaveBeenCalledTimes(2);
+
+    expect(client.cache!.stats()).toMatchObject({ hits: 1, misses: 2, resources: { source: { hits: 1, misses: 2 } } });
+  });
+
+  it('should key list responses on their query parameters', async () => {
+    const client = new JulesClient({ apiKey: 'test-key', transport, cache: {} });
+
+    await client.listSources(10);
+    await client.listSources(10);
+    await client.listSources(20);
+
+    expect(requested()).toEqual(['/sources?pageSize=10', '/sources?pageSize=20']);
+  });
+
+  it('should cache sessions and their activities only once the session is terminal', async () => {
+    vi.useFakeTimers();
+    const client = new JulesClient({ apiKey: 'test-key', transport, cache: {} });
+
+    await client.getSession('sess1');
+    await client.listActivities('sess1');
+    state = 'COMPLETED';
+    await client.getSession('sess1');
+    await client.listActivities('sess1');
+
+    vi.advanceTimersByTime(365 * 24 * 3600 * 1000);
+    expect((await client.getSession('sess1')).state).toBe('COMPLETED');
+    await client.listActivities('sess1');
+    await client.getActivity('sess1', 'act1');
+    await client.getActivity('sess1', 'act1');
+
+    expect(requested()).toEqual([
+      '/sessions/sess1',
+      '/sessions/sess1/activities',
+      '/sessions/sess1',
+      '/sessions/sess1/activities',
+      '/sessions/sess1/activities/act1',
+    ]);
+  });
+
+  it('should invalidate a session when it is mutated', async () => {
+    const client = new JulesClient({ apiKey: 'test-key', transport, cache: { ttlMs: { session: 60000, activities: 60000 } } });
+
+    await client.getSession('sess1');
+    await client.listActivities('sess1');
+    await client.getSession('sess1');
+    await client.sendMessage('sess1', 'Use the other approach');
+    await client.getSession('sess1');
+
+    expect(requested()).toEqual(['/sessions/sess1', '/sessions/sess1/activities', '/sessions/sess1:sendMessage', '/sessions/sess1']);
+    expect(client.cache!.stats().invalidations).toBe(2);
+  });
+
+  it('should invalidate on demand and through the revalidate hook', async () => {
+    const revalidate = vi.fn(entry => entry.etag === '"IN_PROGRESS"');
+    const client = new JulesClient({ apiKey: 'test-key', transport, cache: { ttlMs: { session: 60000 }, revalidate } });
+
+    await client.getSession('sess1');
+    await client.getSession('sess1');
+    expect(revalidate).toHaveBeenCalledWith(
+      expect.objectContaining({ key: expect.stringMatching(/^[0-9a-f]{16}:\/sessions\/sess1$/), resource: 'session' })
+    );
+
+    expect(await client.cache!.invalidate('/sessions/sess1')).toBe(1);
+    state = 'PLANNING';
+    await client.getSession('sess1');
+    await client.getSession('sess1'); // Stored with etag "PLANNING", rejected by the hook
+
+    expect(transport.request).toHaveBeenCalledTimes(3);
+    expect(client.cache!.stats()).toMatchObject({ hits: 1, misses: 3, invalidations: 2 });
+  });
+
+  it('should share a file store between caches and survive restarts', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jules-cache-'));
+    try {
+      state = 'FAILED';
+      const first = new JulesClient({ apiKey: 'test-key', transport, cache: { store: new FileCacheStore(dir) } });
+      await first.getSession('sess1');
+
+      const second = new JulesClient({ apiKey: 'test-key', transport, cache: new ResponseCache({ store: new FileCacheStore(dir) }) });
+      expect((await second.getSession('sess1')).state).toBe('FAILED');
+      expect(transport.request).toHaveBeenCalledTimes(1);
+      expect(await new FileCacheStore(dir).keys()).toEqual([expect.stringMatching(/:\/sessions\/sess1$/)]);
+
+      await second.cache!.clear();
+      expect(fs.readdirSync(dir)).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not serve one API key the responses cached for another', async () => {
+    const store = new MemoryCacheStore();
+    const cache = new ResponseCache({ store, ttlMs: { session: 60000 } });
+    const first = new JulesClient({ apiKey: 'key-a', transport, cache });
+    const second = new JulesClient({ apiKey: 'key-b', transport, cache });
+
+    await first.getSession('sess1');
+    await second.getSession('sess1');
+    await first.getSession('sess1');
+    expect(transport.request).toHaveBeenCalledTimes(2);
+    expect(JSON.stringify(await store.keys())).not.toContain('key-a');
+
+    expect(await cache.invalidate('/sessions/sess1')).toBe(2);
+  });
+
+  it('should evict the least recently used entry from a full memory store', async () => {
+    const store = new MemoryCacheStore(2);
+    const entry = (key: string) => ({ key, resource: 'source' as const, status: 200, headers: {}, data: {}, storedAt: 0, expiresAt: null });
+
+    await store.set(entry('a'));
+    await store.set(entry('b'));
+    await store.get('a');
+    await store.set(entry('c'));
+
+    expect(await store.keys()).toEqual(['a', 'c']);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JulesClient } from '../src/client';
+import { createMockJulesServer } from '../src/testing';
+import { EnvCredentials } from '../src/credentials';
+import { CassetteMissError, UnavailableError } from '../src/errors';
+
+const API_KEY = 'secret-key-123';
+
+const session = {
+  name: 'sessions/42',
+  id: '42',
+  createTime: '2025-10-17T10:00:00Z',
+  updateTime: '2025-10-17T10:00:00Z',
+  state: 'QUEUED' as const,
+  url: 'https://jules.google.com/session/42',
+  prompt: 'Fix the flaky test',
+  sourceContext: { source: 'sources/github/owner/repo' },
+  scenario: [
+    { state: 'IN_PROGRESS' as const },
+    { state: 'COMPLETED' as const, activities: [{ sessionCompleted: {} }] },
+  ],
+};
+
+describe('cassette', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  async function recordCassette(): Promise<string> {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jules-cassette-'));
+    const file = path.join(dir, 'session.json');
+    const server = createMockJulesServer({ apiKey: API_KEY }).listen();
+    try {
+      server.addSession({ ...session });
+      server.injectError({ status: 503, path: 'sessions/42/activities' });
+
+      const client = new JulesClient({ apiKey: API_KEY, cassette: { path: file, mode: 'record' } });
+      await client.getSession('42');
+      await client.getSession('42');
+      await expect(client.listActivities('42', 10)).rejects.toBeInstanceOf(UnavailableError);
+      await client.listActivities('42', 10);
+      await client.sendMessage('42', `Use key ${API_KEY} for the fixture`);
+      await client.sendMessage('42', 'please replay the failing test');
+    } finally {
+      server.close();
+    }
+    return file;
+  }
+
+  it('should record interactions with the API key redacted', async () => {
+    const file = await recordCassette();
+    const contents = fs.readFileSync(file, 'utf8');
+    const cassette = JSON.parse(contents);
+
+    expect(contents).not.toContain(API_KEY);
+    expect(cassette.entries.map((e: any) => `${e.request.method} ${e.request.url} ${e.response.status}`)).toEqual([
+      'GET /sessions/42 200',
+      'GET /sessions/42 200',
+      'GET /sessions/42/activities 503',
+      'GET /sessions/42/activities 200',
+      'POST /sessions/42:sendMessage 200',
+      'POST /sessions/42:sendMessage 200',
+    ]);
+    expect(cassette.entries[4].request.body).toEqual({ prompt: 'Use key [REDACTED] for the fixture' });
+  });
+
+  it('should return unredacted responses while recording', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jules-cassette-'));
+    const file = path.join(dir, 'session.json');
+    const server = createMockJulesServer({ apiKey: API_KEY }).listen();
+    try {
+      server.addSession({ ...session, prompt: `Use key ${API_KEY}` });
+      const client = new JulesClient({ apiKey: API_KEY, cassette: { path: file, mode: 'record' } });
+
+      expect((await client.getSession('42')).prompt).toBe(`Use key ${API_KEY}`);
+      expect(fs.readFileSync(file, 'utf8')).toContain('Use key [REDACTED]');
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should replay offline in recording order, repeating the last response', async () => {
+    const file = await recordCassette();
+    const client = new JulesClient({ apiKey: 'any', cassette: { path: file } });
+
+    expect((await client.getSession('42')).state).toBe('IN_PROGRESS');
+    expect((await client.getSession('42')).state).toBe('COMPLETED');
+    expect((await client.getSession('42')).state).toBe('COMPLETED');
+    await expect(client.listActivities('42', 10)).rejects.toBeInstanceOf(UnavailableError);
+    expect((await client.listActivities('42', 10)).activities!.map(a => a.kind)).toEqual(['sessionCompleted']);
+  });
+
+  it('should replay without an API key or credentials', async () => {
+    const file = await recordCassette();
+    const withoutKey = new JulesClient({ cassette: { path: file } });
+    const withoutEnv = new JulesClient({ credentials: new EnvCredentials('JULES_API_KEY', {}), cassette: { path: file } });
+
+    expect((await withoutKey.getSession('42')).state).toBe('IN_PROGRESS');
+    expect((await withoutEnv.getSession('42')).state).toBe('IN_PROGRESS');
+    await expect(withoutKey.sendMessage('42', 'please replay the failing test')).resolves.toBeUndefined();
+    expect(() => new JulesClient({ cassette: { path: path.join(dir!, 'missing.json') } })).toThrow('apiKey or a credentials provider');
+  });
+
+  it('should fail requests that were not recorded', async () => {
+    const file = await recordCassette();
+    const client = new JulesClient({ apiKey: 'any', cassette: { path: file, mode: 'replay' } });
+
+    await expect(client.listActivities('42', 50)).rejects.toBeInstanceOf(CassetteMissError);
+    await expect(client.sendMessage('42', 'Something else')).rejects.toBeInstanceOf(CassetteMissError);
+  });
+});
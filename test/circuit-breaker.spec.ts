@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JulesClient } from '../src/client';
+import { CircuitBreaker } from '../src/circuit-breaker';
+import { CircuitOpenError, NotFoundError, TransportError, UnavailableError } from '../src/errors';
+import type { TransportRequest, TransportResponse } from '../src/transports';
+
+const source = { name: 'sources/github/owner/repo', id: 'github/owner/repo' };
+const ENDPOINT = 'GET /sources/{sourceId}';
+
+function createLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('CircuitBreaker', () => {
+  let status: number;
+  let transport: { request: ReturnType<typeof vi.fn> };
+  let logger: ReturnType<typeof createLogger>;
+  let breaker: CircuitBreaker;
+  let client: JulesClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    status = 503;
+    transport = {
+      request: vi.fn(async (_request: TransportRequest): Promise<TransportResponse> => {
+        if (status === 0) throw new TransportError('socket hang up', 'network');
+        return { status, headers: {}, body: status === 200 ? JSON.stringify(source) : '' };
+      }),
+    };
+    logger = createLogger();
+    breaker = new CircuitBreaker({ minimumRequests: 4, failureThreshold: 0.5, resetTimeoutMs: 1000 }, logger);
+    client = new JulesClient({ apiKey: 'test-key', transport, circuitBreaker: breaker });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function fail(times: number) {
+    for (let i = 0; i < times; i++) {
+      await client.getSource('github/owner/repo').catch(() => undefined);
+    }
+  }
+
+  it('should open once the failure rate reaches the threshold and fail fast', async () => {
+    status = 200;
+    await client.getSource('github/owner/repo');
+    await client.getSource('github/owner/repo');
+    status = 503;
+    await fail(1);
+    expect(breaker.state(ENDPOINT)).toBe('closed'); // 1 of 3, below minimumRequests
+
+    await fail(1);
+    expect(breaker.state(ENDPOINT)).toBe('open');
+    expect(logger.warn).toHaveBeenCalledWith('Circuit breaker opened', expect.objectContaining({
+      endpoint: ENDPOINT,
+      failures: 2,
+      requests: 4,
+    }));
+
+    const error = await client.getSource('github/owner/repo').catch(e => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.endpoint).toBe(ENDPOINT);
+    expect(error.retryAfterMs).toBe(1000);
+    expect(transport.request).toHaveBeenCalledTimes(4);
+
+    // Other endpoints have their own circuit
+    await expect(client.getSession('sess1')).rejects.toBeInstanceOf(UnavailableError);
+  });
+
+  it('should count network errors but not client errors as failures', async () => {
+    status = 404;
+    await fail(4);
+    expect(breaker.state(ENDPOINT)).toBe('closed');
+    await expect(client.getSource('missing')).rejects.toBeInstanceOf(NotFoundError);
+
+    status = 0;
+    await fail(4);
+    expect(breaker.state(ENDPOINT)).toBe('closed'); // 4 of 9
+    await fail(1);
+    expect(breaker.state(ENDPOINT)).toBe('open');
+  });
+
+  it('should let one probe through when half-open and close on success', async () => {
+    await fail(4);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state(ENDPOINT)).toBe('half-open');
+
+    status = 200;
+    let release!: () => void;
+    transport.request.mockImplementationOnce(async () => {
+      await new Promise<void>(resolve => (release = resolve));
+      return { status: 200, headers: {}, body: JSON.stringify(source) };
+    });
+    const probe = client.getSource('github/owner/repo');
+    await vi.waitFor(() => expect(release).toBeDefined());
+
+    // Same endpoint, different URL: an identical request would join the probe instead
+    await expect(client.getSource('github/owner/other')).rejects.toBeInstanceOf(CircuitOpenError);
+    release();
+    await probe;
+
+    expect(breaker.state(ENDPOINT)).toBe('closed');
+    expect(logger.info).toHaveBeenCalledWith('Circuit breaker half-open, probing', { endpoint: ENDPOINT });
+    expect(logger.info).toHaveBeenCalledWith('Circuit breaker closed', { endpoint: ENDPOINT });
+    await expect(client.getSource('github/owner/repo')).resolves.toEqual(source);
+  });
+
+  it('should re-open when the probe fails and stop retries from piling up', async () => {
+    const retrying = new JulesClient({
+      apiKey: 'test-key',
+      transport,
+      circuitBreaker: breaker,
+      retryConfig: { maxRetries: 10, initialDelayMs: 1, maxDelayMs: 1 },
+    });
+
+    const failed = retrying.getSource('github/owner/repo').catch(e => e);
+    await vi.advanceTimersByTimeAsync(10);
+    expect(await failed).toBeInstanceOf(CircuitOpenError);
+    expect(transport.request).toHaveBeenCalledTimes(4); // The remaining retries failed fast
+
+    vi.advanceTimersByTime(1000);
+    await fail(1);
+    expect(breaker.state(ENDPOINT)).toBe('open');
+    expect(transport.request).toHaveBeenCalledTimes(5);
+  });
+});
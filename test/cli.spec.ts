@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli, CliDeps } from '../src/cli';
+import { parseArgs } from '../src/cli/args';
+import { Paginator } from '../src/pagination';
+import { NotFoundError } from '../src/errors';
+import type { JulesClient } from '../src/client';
+import type { Session } from '../src/types';
+
+const session: Session = {
+  name: 'sessions/sess1',
+  id: 'sess1',
+  prompt: 'Test prompt',
+  sourceContext: { source: 'sources/github/owner/repo' },
+  title: 'My session',
+  state: 'IN_PROGRESS',
+  createTime: '2025-10-17T10:00:00Z',
+  updateTime: '2025-10-17T10:30:00Z',
+  url: 'https://jules.google.com/sessions/sess1',
+};
+
+function setup(client: Partial<Record<keyof JulesClient, any>>, env: NodeJS.ProcessEnv = { JULES_API_KEY: 'env-key', XDG_CONFIG_HOME: '/nonexistent' }) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const deps: CliDeps = {
+    env,
+    stdout: text => out.push(text),
+    stderr: text => err.push(text),
+    createClient: vi.fn(() => client as JulesClient),
+  };
+  return { deps, out: () => out.join(''), err: () => err.join('') };
+}
+
+describe('parseArgs', () => {
+  it('should split positionals, valued and boolean flags', () => {
+    expect(parseArgs(['sessions', 'create', '--prompt', 'Fix it', '--require-approval', '--title=T', 'extra'])).toEqual({
+      positionals: ['sessions', 'create', 'extra'],
+      flags: { prompt: 'Fix it', 'require-approval': true, title: 'T' },
+    });
+  });
+});
+
+describe('runCli', () => {
+  it('should print sessions as a table by default', async () => {
+    const { deps, out } = setup({
+      iterateSessions: vi.fn(() => new Paginator(async () => ({ items: [session] }))),
+    });
+
+    expect(await runCli(['sessions', 'list'], deps)).toBe(0);
+    expect(out()).toMatch(/^ID\s+STATE\s+TITLE\s+UPDATED\n/);
+    expect(out()).toContain('sess1  IN_PROGRESS  My session');
+  });
+
+  it('should print NDJSON when requested', async () => {
+    const { deps, out } = setup({
+      iterateSessions: vi.fn(() => new Paginator(async () => ({ items: [session, { ...session, id: 'sess2' }] }))),
+    });
+
+    await runCli(['sessions', 'list', '--ndjson', '--limit', '2'], deps);
+
+    expect(out().trim().split('\n').map(line => JSON.parse(line).id)).toEqual(['sess1', 'sess2']);
+  });
+
+  it('should create a session from flags', async () => {
+    const createSession = vi.fn(async () => session);
+    const { deps, out } = setup({ createSession });
+
+    await runCli(['sessions', 'create', '--source', 'sources/github/owner/repo', '--prompt', 'Fix it', '--branch', 'main', '--json'], deps);
+
+    expect(createSession).toHaveBeenCalledWith(expect.objectContaining({
+      prompt: 'Fix it',
+      sourceContext: { source: 'sources/github/owner/repo', githubRepoContext: { startingBranch: 'main' } },
+    }), { signal: undefined });
+    expect(JSON.parse(out()).id).toBe('sess1');
+  });
+
+  it('should read the API key from the config file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jules-cli-'));
+    const configPath = path.join(dir, 'config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ apiKey: 'file-key', baseUrl: 'http://localhost:1234' }));
+    const { deps } = setup({ getSession: vi.fn(async () => session) }, {});
+
+    try {
+      await runCli(['sessions', 'get', 'sess1', '--config', configPath], deps);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    expect(deps.createClient).toHaveBeenCalledWith({ apiKey: 'file-key', baseUrl: 'http://localhost:1234' });
+  });
+
+  it('should exit with 2 on usage errors and 1 on API errors', async () => {
+    const missing = setup({});
+    expect(await runCli(['sessions', 'get'], missing.deps)).toBe(2);
+    expect(missing.err()).toContain('Missing <sessionId>');
+
+    const notFound = setup({
+      getSession: vi.fn(async () => { throw new NotFoundError({ message: 'Not found', status: 'NOT_FOUND', httpStatus: 404 }); }),
+    });
+    expect(await runCli(['sessions', 'get', 'nope'], notFound.deps)).toBe(1);
+    expect(notFound.err()).toContain('NOT_FOUND, HTTP 404');
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JulesClientPool } from '../src/client-pool';
+import { NotFoundError, RateLimitedError } from '../src/errors';
+import type { TransportRequest, TransportResponse } from '../src/transports';
+
+const source = { name: 'sources/github/owner/repo', id: 'github/owner/repo' };
+
+function session(id: string) {
+  return {
+    name: `sessions/${id}`,
+    id,
+    createTime: '2025-10-17T10:00:00Z',
+    updateTime: '2025-10-17T10:00:00Z',
+    state: 'QUEUED',
+    url: `https://jules.google.com/session/${id}`,
+    prompt: 'Fix the bug',
+    sourceContext: { source: 'sources/github/owner/repo' },
+  };
+}
+
+const rateLimited: TransportResponse = {
+  status: 429,
+  headers: {},
+  body: JSON.stringify({ error: { code: 429, message: 'Quota exceeded', status: 'RESOURCE_EXHAUSTED' } }),
+};
+
+/**
+ * Fake API that records the key of every request; `limited` keys get 429s
+ */
+function fakeApi(limited = new Set<string>()) {
+  const keys: string[] = [];
+  const transport = {
+    request: vi.fn(async (request: TransportRequest): Promise<TransportResponse> => {
+      const key = request.headers['X-Goog-Api-Key'];
+      keys.push(key);
+      if (limited.has(key)) return rateLimited;
+      const data = request.url.includes('/sessions') ? session(request.method === 'POST' ? `s-${key}` : 'known') : source;
+      return { status: 200, headers: {}, body: JSON.stringify(data) };
+    }),
+  };
+  return { keys, transport, limited };
+}
+
+describe('JulesClientPool', () => {
+  it('should route requests round-robin', async () => {
+    const api = fakeApi();
+    const pool = new JulesClientPool({ keys: ['a', 'b', 'c'], transport: api.transport });
+
+    for (let i = 0; i < 4; i++) await pool.getSource('github/owner/repo');
+
+    expect(api.keys).toEqual(['a', 'b', 'c', 'a']);
+    expect(pool.keyStats().map(s => [s.id, s.requests])).toEqual([['key-0', 2], ['key-1', 1], ['key-2', 1]]);
+  });
+
+  it('should route to the least-loaded key', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => (release = resolve));
+    const api = fakeApi();
+    const request = api.transport.request.getMockImplementation()!;
+    api.transport.request.mockImplementation(async req => {
+      if (api.keys.length < 2) {
+        api.keys.push(req.headers['X-Goog-Api-Key']);
+        await gate;
+        return { status: 200, headers: {}, body: JSON.stringify(source) };
+      }
+      return request(req);
+    });
+    const pool = new JulesClientPool({ keys: ['a', 'b', 'c'], strategy: 'least-loaded', transport: api.transport });
+
+    const slow = [pool.getSource('x'), pool.getSource('y')];
+    await vi.waitFor(() => expect(api.keys).toHaveLength(2));
+    await pool.getSource('z');
+    release();
+    await Promise.all(slow);
+
+    expect(api.keys).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should fail over on rate limits and skip the key while it cools down', async () => {
+    const api = fakeApi(new Set(['a']));
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const pool = new JulesClientPool({
+      keys: ['a', 'b'],
+      transport: api.transport,
+      logger,
+      retryConfig: { maxRetries: 3, initialDelayMs: 1 },
+    });
+
+    expect(await pool.getSource('github/owner/repo')).toEqual(source);
+    await pool.getSource('github/owner/repo');
+
+    expect(api.keys).toEqual(['a', 'b', 'b']); // No retry of the rate-limited key
+    expect(pool.keyStats()[0]).toMatchObject({ id: 'key-0', rateLimited: 1, coolingDownUntil: expect.any(Number) });
+    expect(logger.warn).toHaveBeenCalledWith('API key rate limited, failing over', expect.objectContaining({ key: 'key-0' }));
+    expect(JSON.stringify(logger.warn.mock.calls)).not.toContain('"a"');
+  });
+
+  it('should reject with the rate limit error once every key is exhausted', async () => {
+    const api = fakeApi(new Set(['a', 'b']));
+    const pool = new JulesClientPool({ keys: ['a', 'b'], transport: api.transport });
+
+    await expect(pool.getSource('github/owner/repo')).rejects.toBeInstanceOf(RateLimitedError);
+    expect(api.keys).toEqual(['a', 'b']);
+  });
+
+  it('should fail over on 403 quota errors instead of treating them as invisible sessions', async () => {
+    const quotaErrors = [
+      { code: 403, message: 'Quota exceeded', status: 'RESOURCE_EXHAUSTED' },
+      {
+        code: 403,
+        message: 'Rate limit exceeded',
+        status: 'PERMISSION_DENIED',
+        details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'RATE_LIMIT_EXCEEDED' }],
+      },
+    ];
+    for (const error of quotaErrors) {
+      const api = fakeApi();
+      api.transport.request.mockImplementationOnce(async request => {
+        api.keys.push(request.headers['X-Goog-Api-Key']);
+        return { status: 403, headers: {}, body: JSON.stringify({ error }) };
+      });
+      const pool = new JulesClientPool({
+        keys: [{ id: 'a', apiKey: 'a', account: 'team-a' }, { id: 'b', apiKey: 'b', account: 'team-a' }],
+        transport: api.transport,
+      });
+
+      expect((await pool.getSession('known')).id).toBe('known');
+      expect(api.keys).toEqual(['a', 'b']);
+      expect(pool.keyStats()[0]).toMatchObject({ id: 'a', rateLimited: 1 });
+    }
+  });
+
+  it('should rotate, add and remove keys without rebuilding the client', async () => {
+    const api = fakeApi();
+    const pool = new JulesClientPool({ keys: [{ id: 'team-a', apiKey: 'old' }], transport: api.transport });
+
+    await pool.getSource('github/owner/repo');
+    pool.rotateKey('team-a', 'new');
+    await pool.getSource('github/owner/repo');
+    pool.addKey({ id: 'team-b', apiKey: 'b' });
+    pool.removeKey('team-a');
+    await pool.getSource('github/owner/repo');
+
+    expect(api.keys).toEqual(['old', 'new', 'b']);
+    expect(() => pool.removeKey('team-b')).toThrow('last key');
+    expect(() => pool.rotateKey('missing', 'x')).toThrow('no key with id missing');
+  });
+
+  it('should keep session calls on the account that owns the session', async () => {
+    const api = fakeApi();
+    const pool = new JulesClientPool({
+      keys: [
+        { id: 'a1', apiKey: 'a1', account: 'team-a' },
+        { id: 'b1', apiKey: 'b1', account: 'team-b' },
+        { id: 'a2', apiKey: 'a2', account: 'team-a' },
+      ],
+      transport: api.transport,
+    });
+
+    const created = await pool.createSession({ prompt: 'Fix the bug', sourceContext: { source: 'sources/github/owner/repo' } });
+    expect(created.id).toBe('s-a1');
+    api.limited.add('a1');
+    await pool.getSession(created.id);
+    await pool.approvePlan(created.id);
+
+    // Round-robin within team-a; the rate-limited a1 fails over to a2, never to team-b's key
+    expect(api.keys).toEqual(['a1', 'a2', 'a1', 'a2']);
+  });
+
+  it('should fail over session calls between keys without an account', async () => {
+    const api = fakeApi();
+    const pool = new JulesClientPool({ keys: ['a', 'b'], transport: api.transport });
+
+    const created = await pool.createSession({ prompt: 'Fix the bug', sourceContext: { source: 'sources/github/owner/repo' } });
+    await pool.getSource('github/owner/repo');
+    api.limited.add('a');
+    await pool.getSession(created.id);
+
+    expect(api.keys).toEqual(['a', 'b', 'a', 'b']);
+    expect(pool.keyStats().map(s => s.account)).toEqual(['default', 'default']);
+  });
+
+  it('should try other accounts for a session it has not seen yet', async () => {
+    const api = fakeApi();
+    const request = api.transport.request.getMockImplementation()!;
+    api.transport.request.mockImplementation(async req => {
+      if (!(req.headers['X-Goog-Api-Key'] === 'b1' && req.url.endsWith('/known'))) {
+        api.keys.push(req.headers['X-Goog-Api-Key']);
+        return { status: 404, headers: {}, body: JSON.stringify({ error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } }) };
+      }
+      return request(req);
+    });
+    const pool = new JulesClientPool({
+      keys: [
+        { id: 'a1', apiKey: 'a1', account: 'team-a' },
+        { id: 'a2', apiKey: 'a2', account: 'team-a' },
+        { id: 'b1', apiKey: 'b1', account: 'team-b' },
+        { id: 'c1', apiKey: 'c1', account: 'team-c' },
+      ],
+      transport: api.transport,
+    });
+
+    expect((await pool.getSession('known')).id).toBe('known');
+    expect(api.keys[api.keys.length - 1]).toBe('b1');
+    api.keys.length = 0;
+    await pool.getSession('known');
+    expect(api.keys).toEqual(['b1']); // The account that could see it is remembered
+
+    api.keys.length = 0;
+    await expect(pool.getSession('missing')).rejects.toBeInstanceOf(NotFoundError);
+    expect(api.keys.map(key => key[0]).sort()).toEqual(['a', 'b', 'c']); // One key per account
+  });
+});
@@ -1,35 +1,19 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import axios from 'axios';
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
 import { JulesClient } from '../src/client';
 import { CreateSessionRequestSchema } from '../src/schemas/sessions';
+import type { TransportRequest, TransportResponse } from '../src/transports';
 
-vi.mock('axios');
+const BASE_URL = 'https://jules.googleapis.com/v1alpha';
 
 describe('JulesClient', () => {
-  let mockAxiosInstance: any;
+  let transport: { request: Mock<(request: TransportRequest) => Promise<TransportResponse>> };
+
+  const ok = (data: unknown): TransportResponse => ({ status: 200, headers: {}, body: JSON.stringify(data) });
+  const respond = (data: unknown) => transport.request.mockResolvedValue(ok(data));
+  const lastRequest = () => transport.request.mock.lastCall![0];
 
   beforeEach(() => {
-    vi.resetAllMocks();
-    mockAxiosInstance = {
-      get: vi.fn(),
-      post: vi.fn(),
-      request: vi.fn((config) => {
-        // Delegate to appropriate method based on config
-        if (config.method === 'GET' || !config.method) {
-          return mockAxiosInstance.get(config.url, config);
-        } else if (config.method === 'POST') {
-          return mockAxiosInstance.post(config.url, config.data, config);
-        }
-        return Promise.resolve({ data: {} });
-      }),
-      interceptors: {
-        response: {
-          use: vi.fn(),
-        },
-      },
-    };
-    const mockAxios = axios as any;
-    mockAxios.create = vi.fn().mockReturnValue(mockAxiosInstance);
+    transport = { request: vi.fn() };
   });
 
   describe('listSources', () => {
@@ -40,35 +24,35 @@ describe('JulesClient', () => {
         ],
         nextPageToken: 'token123',
       };
-      mockAxiosInstance.get.mockResolvedValue({ data: mockSources });
+      respond(mockSources);
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.listSources(10);
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/sources', expect.objectContaining({ params: { pageSize: 10 } }));
+      expect(lastRequest()).toMatchObject({ method: 'GET', url: `${BASE_URL}/sources?pageSize=10` });
       expect(result).toEqual(mockSources);
     });
 
     it('should handle pagination', async () => {
       const mockSources = { sources: [], nextPageToken: undefined };
-      mockAxiosInstance.get.mockResolvedValue({ data: mockSources });
+      respond(mockSources);
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       await client.listSources(5, 'token456');
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/sources', expect.objectContaining({ params: { pageSize: 5, pageToken: 'token456' } }));
+      expect(lastRequest()).toMatchObject({ method: 'GET', url: `${BASE_URL}/sources?pageSize=5&pageToken=token456` });
     });
   });
 
   describe('getSource', () => {
     it('should get a source by ID', async () => {
       const mockSource = { id: 'src1', name: 'sources/github/owner/repo' };
-      mockAxiosInstance.get.mockResolvedValue({ data: mockSource });
+      respond(mockSource);
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.getSource('src1');
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/sources/src1', expect.any(Object));
+      expect(lastRequest()).toMatchObject({ method: 'GET', url: `${BASE_URL}/sources/src1` });
       expect(result).toEqual(mockSource);
     });
   });
@@ -93,24 +77,25 @@ describe('JulesClient', () => {
         updateTime: '2025-10-17T10:00:00Z',
         url: 'https://jules.google.com/sessions/sess123',
       };
-      mockAxiosInstance.post.mockResolvedValue({ data: mockSession });
+      respond(mockSession);
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.createSession(request);
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/sessions', request, expect.any(Object));
+      expect(lastRequest()).toMatchObject({ method: 'POST', url: `${BASE_URL}/sessions` });
+      expect(JSON.parse(lastRequest().body!)).toEqual(request);
       expect(result).toEqual(mockSession);
     });
 
     it('should validate request and throw on missing required field', async () => {
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
 
       // Missing sourceContext
       await expect(client.createSession({ prompt: 'test' } as any)).rejects.toThrow();
     });
 
     it('should validate request and throw on empty prompt', async () => {
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
 
       await expect(
         client.createSession({
@@ -137,12 +122,12 @@ describe('JulesClient', () => {
         }],
         nextPageToken: 'token789',
       };
-      mockAxiosInstance.get.mockResolvedValue({ data: mockData });
+      respond(mockData);
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.listSessions(10);
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/sessions', expect.objectContaining({ params: { pageSize: 10 } }));
+      expect(lastRequest()).toMatchObject({ method: 'GET', url: `${BASE_URL}/sessions?pageSize=10` });
       expect(result).toEqual(mockData);
     });
   });
@@ -163,24 +148,24 @@ describe('JulesClient', () => {
         updateTime: '2025-10-17T10:30:00Z',
         url: 'https://jules.google.com/sessions/sess1',
       };
-      mockAxiosInstance.get.mockResolvedValue({ data: mockSession });
+      respond(mockSession);
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.getSession('sess1');
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/sessions/sess1', expect.any(Object));
+      expect(lastRequest()).toMatchObject({ method: 'GET', url: `${BASE_URL}/sessions/sess1` });
       expect(result).toEqual(mockSession);
     });
   });
 
   describe('approvePlan', () => {
     it('should approve plan for a session', async () => {
-      mockAxiosInstance.post.mockResolvedValue({ data: {} });
+      respond({});
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       await client.approvePlan('sess1');
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/sessions/sess1:approvePlan');
+      expect(lastRequest()).toMatchObject({ method: 'POST', url: `${BASE_URL}/sessions/sess1:approvePlan`, body: undefined });
     });
   });
 
@@ -197,13 +182,16 @@ describe('JulesClient', () => {
         }],
         nextPageToken: 'token999',
       };
-      mockAxiosInstance.get.mockResolvedValue({ data: mockActivities });
+      respond(mockActivities);
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.listActivities('sess1', 20);
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/sessions/sess1/activities', expect.objectContaining({ params: { pageSize: 20 } }));
-      expect(result).toEqual(mockActivities);
+      expect(lastRequest()).toMatchObject({ method: 'GET', url: `${BASE_URL}/sessions/sess1/activities?pageSize=20` });
+      expect(result).toEqual({
+        ...mockActivities,
+        activities: [{ ...mockActivities.activities[0], kind: 'progressUpdated' }],
+      });
     });
 
     it('should handle complex real-world activity payloads', async () => {
@@ -253,10 +241,36 @@ describe('JulesClient', () => {
           },
         ],
       };
-      mockAxiosInstance.get.mockResolvedValue({ data: mockActivities });
-      const client = new JulesClient({ apiKey: 'test-key' });
+      respond(mockActivities);
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.listActivities('sess1');
-      expect(result).toEqual(mockActivities);
+      expect(result).toEqual({
+        activities: mockActivities.activities.map((activity, i) => ({
+          ...activity,
+          kind: ['userMessaged', 'planGenerated', 'progressUpdated'][i],
+        })),
+      });
+    });
+  });
+
+  describe('iterateActivities', () => {
+    it('should follow nextPageToken across pages', async () => {
+      const activity = (id: string) => ({
+        name: `sessions/sess1/activities/${id}`,
+        id,
+        createTime: '2025-10-17T10:00:00Z',
+        originator: 'agent',
+        progressUpdated: { title: id },
+      });
+      transport.request
+        .mockResolvedValueOnce(ok({ activities: [activity('act1'), activity('act2')], nextPageToken: 'next' }))
+        .mockResolvedValueOnce(ok({ activities: [activity('act3')] }));
+
+      const client = new JulesClient({ apiKey: 'test-key', transport });
+      const activities = await client.iterateActivities('sess1', { pageSize: 2 }).toArray();
+
+      expect(activities.map(a => a.id)).toEqual(['act1', 'act2', 'act3']);
+      expect(lastRequest()).toMatchObject({ method: 'GET', url: `${BASE_URL}/sessions/sess1/activities?pageSize=2&pageToken=next` });
     });
   });
 
@@ -275,35 +289,39 @@ describe('JulesClient', () => {
           },
         },
       };
-      mockAxiosInstance.get.mockResolvedValue({ data: mockActivity });
+      respond(mockActivity);
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.getActivity('sess1', 'act1');
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/sessions/sess1/activities/act1', expect.any(Object));
-      expect(result).toEqual(mockActivity);
+      expect(lastRequest()).toMatchObject({ method: 'GET', url: `${BASE_URL}/sessions/sess1/activities/act1` });
+      expect(result).toEqual({ ...mockActivity, kind: 'planGenerated' });
       expect(result.planGenerated).toBeDefined();
     });
   });
 
   describe('sendMessage', () => {
     it('should send a message to a session', async () => {
-      mockAxiosInstance.post.mockResolvedValue({ data: {} });
+      respond({});
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       await client.sendMessage('sess1', 'Please refactor this function');
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/sessions/sess1:sendMessage', { prompt: 'Please refactor this function' });
+      expect(lastRequest()).toMatchObject({
+        method: 'POST',
+        url: `${BASE_URL}/sessions/sess1:sendMessage`,
+        body: JSON.stringify({ prompt: 'Please refactor this function' }),
+      });
     });
 
     it('should throw on empty prompt', async () => {
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
 
       await expect(client.sendMessage('sess1', '')).rejects.toThrow();
     });
 
     it('should throw on whitespace-only prompt', async () => {
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
 
       await expect(client.sendMessage('sess1', '   ')).rejects.toThrow();
     });
@@ -326,8 +344,8 @@ describe('JulesClient', () => {
         url: 'https://jules.google.com/sessions/sess1',
       };
 
-      mockAxiosInstance.get.mockResolvedValue({ data: mockSession });
-      const client = new JulesClient({ apiKey: 'test-key' });
+      respond(mockSession);
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.getSession('sess1');
 
       expect(result).toEqual(mockSession);
@@ -346,11 +364,11 @@ describe('JulesClient', () => {
         },
       };
 
-      mockAxiosInstance.get.mockResolvedValue({ data: mockActivity });
-      const client = new JulesClient({ apiKey: 'test-key' });
+      respond(mockActivity);
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.getActivity('sess1', 'act1');
 
-      expect(result).toEqual(mockActivity);
+      expect(result).toEqual({ ...mockActivity, kind: 'agentMessaged' });
       expect(result.agentMessaged).toBeDefined();
     });
 
@@ -366,11 +384,11 @@ describe('JulesClient', () => {
         },
       };
 
-      mockAxiosInstance.get.mockResolvedValue({ data: mockActivity });
-      const client = new JulesClient({ apiKey: 'test-key' });
+      respond(mockActivity);
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.getActivity('sess1', 'act2');
 
-      expect(result).toEqual(mockActivity);
+      expect(result).toEqual({ ...mockActivity, kind: 'userMessaged' });
       expect(result.userMessaged).toBeDefined();
     });
 
@@ -392,11 +410,11 @@ describe('JulesClient', () => {
         },
       };
 
-      mockAxiosInstance.get.mockResolvedValue({ data: mockActivity });
-      const client = new JulesClient({ apiKey: 'test-key' });
+      respond(mockActivity);
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.getActivity('sess1', 'act3');
 
-      expect(result).toEqual(mockActivity);
+      expect(result).toEqual({ ...mockActivity, kind: 'planGenerated' });
       expect(result.planGenerated).toBeDefined();
     });
 
@@ -425,8 +443,8 @@ describe('JulesClient', () => {
         ],
       };
 
-      mockAxiosInstance.get.mockResolvedValue({ data: mockActivity });
-      const client = new JulesClient({ apiKey: 'test-key' });
+      respond(mockActivity);
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       const result = await client.getActivity('sess1', 'act4');
 
       expect(result.artifacts).toBeDefined();
@@ -435,9 +453,9 @@ describe('JulesClient', () => {
 
     it('should reject invalid Session response', async () => {
       const invalidSession = { id: 123 }; // id should be string, missing required fields
-      mockAxiosInstance.get.mockResolvedValue({ data: invalidSession });
+      respond(invalidSession);
 
-      const client = new JulesClient({ apiKey: 'test-key' });
+      const client = new JulesClient({ apiKey: 'test-key', transport });
       
       // requestWithValidation should throw ZodError
       await expect(client.getSession('sess1')).rejects.toThrow();
@@ -453,8 +471,8 @@ describe('JulesClient', () => {
         // Missing all content fields (agentMessaged, userMessaged, planGenerated, progressUpdated)
       };
 
-      mockAxiosInstance.get.mockResolvedValue({ data: invalidActivity });
-      const client = new JulesClient({ apiKey: 'test-key' });
+      respond(invalidActivity);
+      const client = new JulesClient({ apiKey: 'test-key', transport });
 
       await expect(client.getActivity('sess1', 'bad')).rejects.toThrow();
     });
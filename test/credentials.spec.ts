@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JulesClient } from '../src/client';
+import { CallbackCredentials, EnvCredentials, FileCredentials } from '../src/credentials';
+import { CredentialsError, UnauthenticatedError } from '../src/errors';
+import type { TransportRequest, TransportResponse } from '../src/transports';
+
+const source = { name: 'sources/github/owner/repo', id: 'github/owner/repo' };
+
+const unauthenticated: TransportResponse = {
+  status: 401,
+  headers: {},
+  body: JSON.stringify({ error: { code: 401, message: 'API key not valid', status: 'UNAUTHENTICATED' } }),
+};
+
+/**
+ * Fake API accepting only `valid.key`; records the key of every request
+ */
+function fakeApi(valid: { key: string }) {
+  const keys: string[] = [];
+  const transport = {
+    request: vi.fn(async (request: TransportRequest): Promise<TransportResponse> => {
+      keys.push(request.headers['X-Goog-Api-Key']);
+      return request.headers['X-Goog-Api-Key'] === valid.key
+        ? { status: 200, headers: {}, body: JSON.stringify(source) }
+        : unauthenticated;
+    }),
+  };
+  return { keys, transport };
+}
+
+describe('credentials', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jules-credentials-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should require an apiKey or a credentials provider', () => {
+    expect(() => new JulesClient({})).toThrow('An apiKey or a credentials provider is required');
+  });
+
+  it('should read the environment variable on every request', async () => {
+    const valid = { key: 'first' };
+    const api = fakeApi(valid);
+    const env: NodeJS.ProcessEnv = { MY_KEY: 'first' };
+    const client = new JulesClient({ credentials: new EnvCredentials('MY_KEY', env), transport: api.transport });
+
+    await client.getSource('github/owner/repo');
+    env.MY_KEY = valid.key = 'second';
+    await client.getSource('github/owner/repo');
+
+    expect(api.keys).toEqual(['first', 'second']);
+  });
+
+  it('should retry a 401 with the rotated environment variable', async () => {
+    const env: NodeJS.ProcessEnv = { MY_KEY: 'old' };
+    const api = fakeApi({ key: 'new' });
+    api.transport.request.mockImplementationOnce(async (request: TransportRequest) => {
+      api.keys.push(request.headers['X-Goog-Api-Key']);
+      env.MY_KEY = 'new'; // Rotated while the request was in flight
+      return unauthenticated;
+    });
+    const client = new JulesClient({ credentials: new EnvCredentials('MY_KEY', env), transport: api.transport });
+
+    await expect(client.getSource('github/owner/repo')).resolves.toEqual(source);
+    expect(api.keys).toEqual(['old', 'new']);
+  });
+
+  it('should read process.env as it is when the key is requested', async () => {
+    const original = process.env;
+    const api = fakeApi({ key: 'replaced' });
+    const credentials = new EnvCredentials('MY_KEY');
+    try {
+      process.env = { ...original, MY_KEY: 'replaced' };
+      const client = new JulesClient({ credentials, transport: api.transport });
+      await expect(client.getSource('github/owner/repo')).resolves.toEqual(source);
+    } finally {
+      process.env = original;
+    }
+  });
+
+  it('should reject with CredentialsError without sending when no key is available', async () => {
+    const api = fakeApi({ key: 'k' });
+    const client = new JulesClient({ credentials: new EnvCredentials('MY_KEY', {}), transport: api.transport });
+
+    await expect(client.getSource('github/owner/repo')).rejects.toThrow(
+      new CredentialsError('Environment variable MY_KEY is not set')
+    );
+    expect(api.transport.request).not.toHaveBeenCalled();
+  });
+
+  it('should cache a file key and reload it after a 401', async () => {
+    const file = path.join(dir, 'jules.json');
+    fs.writeFileSync(file, JSON.stringify({ token: 'old' }));
+    const valid = { key: 'old' };
+    const api = fakeApi(valid);
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const client = new JulesClient({
+      credentials: new FileCredentials(file, { field: 'token', ttlMs: Infinity }),
+      transport: api.transport,
+      logger,
+    });
+
+    await client.getSource('github/owner/repo');
+    // The secrets agent rotates the key: the cached one is used until the API rejects it
+    fs.writeFileSync(file, 'new\n');
+    valid.key = 'new';
+    await expect(client.getSource('github/owner/repo')).resolves.toEqual(source);
+    await client.getSource('github/owner/repo');
+
+    expect(api.keys).toEqual(['old', 'old', 'new', 'new']);
+    expect(logger.warn).toHaveBeenCalledWith('API key rejected, refreshing credentials', {
+      url: '/sources/github/owner/repo',
+      method: 'GET',
+    });
+  });
+
+  it('should refresh only once per call', async () => {
+    const api = fakeApi({ key: 'never' });
+    const callback = vi.fn(async () => 'revoked');
+    const client = new JulesClient({ credentials: new CallbackCredentials(callback), transport: api.transport });
+
+    const error = await client.getSource('github/owner/repo').catch(e => e);
+
+    expect(error).toBeInstanceOf(UnauthenticatedError);
+    expect(error.retryCount).toBe(0);
+    expect(api.keys).toEqual(['revoked', 'revoked']);
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry a 401 for a static apiKey', async () => {
+    const api = fakeApi({ key: 'valid' });
+    const client = new JulesClient({ apiKey: 'invalid', transport: api.transport });
+
+    await expect(client.getSource('github/owner/repo')).rejects.toBeInstanceOf(UnauthenticatedError);
+    expect(api.transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one callback load between concurrent requests and honour the TTL', async () => {
+    vi.useFakeTimers();
+    try {
+      const api = fakeApi({ key: 'vault-key' });
+      const callback = vi.fn(async () => 'vault-key');
+      const client = new JulesClient({
+        credentials: new CallbackCredentials(callback, { ttlMs: 1000 }),
+        transport: api.transport,
+      });
+
+      await Promise.all([client.getSource('a'), client.getSource('b'), client.getSource('c')]);
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1000);
+      await client.getSource('d');
+      expect(callback).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should wrap callback failures in CredentialsError', async () => {
+    const cause = new Error('vault sealed');
+    const credentials = new CallbackCredentials(() => Promise.reject(cause));
+
+    const error = await credentials.getApiKey().catch(e => e);
+
+    expect(error).toBeInstanceOf(CredentialsError);
+    expect(error.message).toBe('Failed to load API key: vault sealed');
+    expect(error.cause).toBe(cause);
+  });
+});
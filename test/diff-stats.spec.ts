@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { parseUnidiff } from '../src/unidiff';
+import {
+  diffStats,
+  activityDiffStats,
+  formatDiffStats,
+  matchesPathPattern,
+  findProtectedPathChanges,
+} from '../src/diff-stats';
+import type { Activity } from '../src/types';
+
+const PATCH = `diff --git a/src/index.ts b/src/index.ts
+index 1111111..2222222 100644
+--- a/src/index.ts
++++ b/src/index.ts
+@@ -1,3 +1,4 @@ import
+ export * from './a';
+-export * from './b';
++export * from './c';
++export * from './d';
+ export default 1;
+@@ -10 +11 @@
+-old
++new
+diff --git a/docs/old.md b/docs/new.md
+similarity index 90%
+rename from docs/old.md
+rename to docs/new.md
+index 3333333..4444444 100644
+--- a/docs/old.md
++++ b/docs/new.md
+@@ -1 +1 @@
+-Old title
++New title
+diff --git a/.github/workflows/ci.yml b/.github/workflows/ci.yml
+deleted file mode 100644
+index 5555555..0000000
+--- a/.github/workflows/ci.yml
++++ /dev/null
+@@ -1,2 +0,0 @@
+-name: CI
+-on: push
+diff --git a/logo.png b/logo.png
+new file mode 100644
+index 0000000..6666666
+Binary files /dev/null and b/logo.png differ
+`;
+
+describe('parseUnidiff change types', () => {
+  it('should classify modified, renamed, deleted and binary added files', () => {
+    const files = parseUnidiff(PATCH);
+
+    expect(files.map(f => f.changeType)).toEqual(['modified', 'renamed', 'deleted', 'added']);
+    expect(files[0].hunks.map(h => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([[1, 3, 1, 4], [10, 1, 11, 1]]);
+    expect(files[0].hunks[0].section).toBe('import');
+    expect(files[1]).toMatchObject({ oldPath: 'docs/old.md', newPath: 'docs/new.md', similarity: 90 });
+    expect(files[2]).toMatchObject({ oldPath: '.github/workflows/ci.yml', newPath: undefined, oldMode: '100644' });
+    expect(files[3]).toMatchObject({ newPath: 'logo.png', binary: true, hunks: [] });
+  });
+});
+
+describe('diffStats', () => {
+  it('should count added and removed lines per file and in total', () => {
+    const stats = diffStats(PATCH);
+
+    expect(stats).toMatchObject({ filesChanged: 4, additions: 4, deletions: 5 });
+    expect(stats.files[0]).toEqual({ path: 'src/index.ts', oldPath: undefined, changeType: 'modified', binary: false, additions: 3, deletions: 2 });
+    expect(stats.files[1]).toMatchObject({ path: 'docs/new.md', oldPath: 'docs/old.md' });
+    expect(formatDiffStats(stats)).toBe('4 files changed, +4/−5');
+  });
+
+  it('should summarize the changeSets of an activity', () => {
+    const activity = {
+      name: 'sessions/sess1/activities/act1',
+      id: 'act1',
+      createTime: '2025-10-17T10:00:00Z',
+      originator: 'agent',
+      sessionCompleted: {},
+      artifacts: [
+        { changeSet: { gitPatch: { unidiffPatch: PATCH } } },
+        { bashOutput: { command: 'npm test', exitCode: 0 } },
+      ],
+    } as Activity;
+
+    expect(formatDiffStats(activityDiffStats(activity))).toBe('4 files changed, +4/−5');
+  });
+});
+
+describe('protected paths', () => {
+  it('should match globs, directory prefixes and regular expressions', () => {
+    expect(matchesPathPattern('src/index.ts', 'src/*.ts')).toBe(true);
+    expect(matchesPathPattern('src/a/b.ts', 'src/*.ts')).toBe(false);
+    expect(matchesPathPattern('src/a/b.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesPathPattern('src/b.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesPathPattern('infra/main.tf', 'infra/')).toBe(true);
+    expect(matchesPathPattern('package.json', /^package(-lock)?\.json$/)).toBe(true);
+  });
+
+  it('should flag files touching protected paths, including rename sources', () => {
+    const flagged = findProtectedPathChanges(diffStats(PATCH), ['.github/**', 'docs/old.md']);
+
+    expect(flagged.map(f => f.path)).toEqual(['docs/new.md', '.github/workflows/ci.yml']);
+  });
+
+  it('should match global and sticky regexes on every call', () => {
+    const patterns = [/^docs\/old\.md$/g, /\.github\//y];
+
+    for (let i = 0; i < 3; i++) {
+      expect(matchesPathPattern('docs/old.md', patterns[0])).toBe(true);
+      expect(findProtectedPathChanges(diffStats(PATCH), patterns).map(f => f.path)).toEqual(['docs/new.md', '.github/workflows/ci.yml']);
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { createHttpClient } from '../src/http';
+import type { Transport, TransportResponse } from '../src/transports';
+import {
+  createJulesApiError,
+  JulesApiError,
+  NotFoundError,
+  PermissionDeniedError,
+  InvalidArgumentError,
+  RateLimitedError,
+  UnavailableError,
+  DeadlineExceededError,
+  TransportError,
+} from '../src/errors';
+
+function failingTransport(responses: Array<Partial<TransportResponse> | null>): Transport {
+  let call = 0;
+  return {
+    request: async () => {
+      const response = responses[Math.min(call++, responses.length - 1)];
+      if (response === null) {
+        throw new TransportError('socket hang up', 'network');
+      }
+      return { headers: {}, body: '', status: 500, ...response };
+    },
+  };
+}
+
+describe('createJulesApiError', () => {
+  it('should pick the subclass from the gRPC status in the body', () => {
+    const error = createJulesApiError({
+      httpStatus: 404,
+      body: {
+        error: {
+          code: 404,
+          message: 'Session sess1 not found',
+          status: 'NOT_FOUND',
+          details: [{ '@type': 'type.googleapis.com/google.rpc.ResourceInfo', resourceName: 'sessions/sess1' }],
+        },
+      },
+      method: 'get',
+      url: '/sessions/sess1',
+      retryCount: 2,
+    });
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toBeInstanceOf(JulesApiError);
+    expect(error.name).toBe('NotFoundError');
+    expect(error.message).toBe('Session sess1 not found');
+    expect(error.status).toBe('NOT_FOUND');
+    expect(error.httpStatus).toBe(404);
+    expect(error.method).toBe('GET');
+    expect(error.url).toBe('/sessions/sess1');
+    expect(error.retryCount).toBe(2);
+    expect(error.details[0]).toMatchObject({ resourceName: 'sessions/sess1' });
+  });
+
+  it('should fall back to the HTTP status when the body is not a Google API error', () => {
+    expect(createJulesApiError({ httpStatus: 403, body: 'Forbidden' })).toBeInstanceOf(PermissionDeniedError);
+    expect(createJulesApiError({ httpStatus: 400 })).toBeInstanceOf(InvalidArgumentError);
+    expect(createJulesApiError({ httpStatus: 503 })).toBeInstanceOf(UnavailableError);
+
+    const unknown = createJulesApiError({ httpStatus: 418 });
+    expect(unknown.constructor).toBe(JulesApiError);
+    expect(unknown.status).toBe('UNKNOWN');
+  });
+
+  it('should carry Retry-After on rate limit errors', () => {
+    const error = createJulesApiError({ httpStatus: 429, retryAfterMs: 5000 });
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfterMs).toBe(5000);
+  });
+
+  it('should classify network failures without a response', () => {
+    expect(createJulesApiError({ message: 'socket hang up' })).toBeInstanceOf(UnavailableError);
+    expect(createJulesApiError({ timedOut: true })).toBeInstanceOf(DeadlineExceededError);
+  });
+});
+
+describe('createHttpClient errors', () => {
+  it('should reject with a typed error for error responses', async () => {
+    const http = createHttpClient({
+      apiKey: 'test-key',
+      transport: failingTransport([{
+        status: 404,
+        body: JSON.stringify({ error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } }),
+      }]),
+    });
+
+    const error = await http.request({ method: 'GET', url: '/sessions/missing' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('Not found');
+    expect(error.url).toBe('/sessions/missing');
+  });
+
+  it('should classify transport failures', async () => {
+    const http = createHttpClient({
+      apiKey: 'test-key',
+      transport: { request: async () => { throw new TransportError('timeout of 5ms exceeded', 'timeout'); } },
+    });
+
+    const error = await http.request({ method: 'GET', url: '/sources' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(DeadlineExceededError);
+    expect(error.cause).toBeInstanceOf(TransportError);
+  });
+
+  it('should report how many retries were attempted', async () => {
+    const http = createHttpClient({
+      apiKey: 'test-key',
+      retryConfig: { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 1 },
+      transport: failingTransport([null, { status: 503 }]),
+    });
+
+    const error = await http.request({ method: 'GET', url: '/sources' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(UnavailableError);
+    expect(error.httpStatus).toBe(503);
+    expect(error.retryCount).toBe(2);
+  });
+});
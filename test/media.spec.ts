@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  decodeMedia,
+  detectMimeType,
+  extensionForMimeType,
+  collectMediaArtifacts,
+  mediaFileName,
+  saveSessionMedia,
+} from '../src/media';
+import { Paginator } from '../src/pagination';
+import { MediaValidationError } from '../src/errors';
+import type { Activity } from '../src/types';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+function mediaActivity(id: string, ...media: Array<{ data?: string; mimeType?: string }>): Activity {
+  return {
+    name: `sessions/sess1/activities/${id}`,
+    id,
+    createTime: '2025-10-17T10:00:00Z',
+    originator: 'agent',
+    kind: 'progressUpdated',
+    progressUpdated: { title: 'Screenshot' },
+    artifacts: [{ bashOutput: { command: 'ls' } }, ...media.map(m => ({ media: m }))],
+  };
+}
+
+describe('decodeMedia', () => {
+  it('should decode base64 and base64url data', () => {
+    expect(decodeMedia({ data: PNG.toString('base64'), mimeType: 'image/png' })).toEqual(PNG);
+    expect(decodeMedia({ data: PNG.toString('base64url'), mimeType: 'image/png' })).toEqual(PNG);
+  });
+
+  it('should reject invalid base64', () => {
+    expect(() => decodeMedia({ data: 'not base64!', mimeType: 'image/png' })).toThrow(MediaValidationError);
+    expect(() => decodeMedia({ mimeType: 'image/png' })).toThrow(/no data/);
+  });
+
+  it('should reject content that does not match the declared mime type', () => {
+    const error = (() => {
+      try {
+        decodeMedia({ data: JPEG.toString('base64'), mimeType: 'image/png' });
+      } catch (e) {
+        return e as MediaValidationError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(MediaValidationError);
+    expect(error).toMatchObject({ reason: 'mime-mismatch', declaredMimeType: 'image/png', detectedMimeType: 'image/jpeg' });
+    expect(decodeMedia({ data: JPEG.toString('base64'), mimeType: 'image/jpg' })).toEqual(JPEG);
+    expect(decodeMedia({ data: JPEG.toString('base64'), mimeType: 'image/png' }, { verifyMimeType: false })).toEqual(JPEG);
+  });
+});
+
+describe('mime types', () => {
+  it('should detect magic bytes and map extensions', () => {
+    expect(detectMimeType(PNG)).toBe('image/png');
+    expect(detectMimeType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe('image/svg+xml');
+    expect(detectMimeType(Buffer.from('plain text'))).toBeUndefined();
+    expect(extensionForMimeType('image/jpeg')).toBe('jpg');
+    expect(extensionForMimeType('text/plain; charset=utf-8')).toBe('txt');
+    expect(extensionForMimeType('application/x-unknown')).toBe('bin');
+  });
+
+  it('should only detect BMP files whose header is consistent', () => {
+    const bmp = Buffer.alloc(58);
+    bmp.write('BM');
+    bmp.writeUInt32LE(58, 2); // File size
+    bmp.writeUInt32LE(54, 10); // Pixel data offset
+    bmp.writeUInt32LE(40, 14); // BITMAPINFOHEADER
+
+    expect(detectMimeType(bmp)).toBe('image/bmp');
+    expect(detectMimeType(Buffer.from('BMW service report, 2025 edition'))).toBeUndefined();
+    expect(detectMimeType(Buffer.concat([bmp.subarray(0, 6), Buffer.from([1, 0, 0, 0]), bmp.subarray(10)]))).toBeUndefined();
+  });
+
+  it('should tell ISO media files apart by their ftyp brand', () => {
+    const ftyp = (brand: string) => Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from(`ftyp${brand}`)]);
+
+    expect(detectMimeType(ftyp('isom'))).toBe('video/mp4');
+    expect(detectMimeType(ftyp('avif'))).toBe('image/avif');
+    expect(detectMimeType(ftyp('heic'))).toBe('image/heic');
+    expect(detectMimeType(ftyp('qt  '))).toBe('video/quicktime');
+    expect(detectMimeType(ftyp('crx '))).toBeUndefined();
+    expect(() => decodeMedia({ data: ftyp('avif').toString('base64'), mimeType: 'image/avif' })).not.toThrow();
+    expect(() => decodeMedia({ data: ftyp('avif').toString('base64'), mimeType: 'video/mp4' })).toThrow(MediaValidationError);
+  });
+
+  it('should not flag formats that share a signature with the detected one', () => {
+    const docx = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+    const mimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+    expect(detectMimeType(docx)).toBe('application/zip');
+    expect(() => decodeMedia({ data: docx.toString('base64'), mimeType })).not.toThrow();
+  });
+
+  it('should derive deterministic file names from the activity id', () => {
+    const artifacts = collectMediaArtifacts(mediaActivity('act/1', { data: 'AA==', mimeType: 'image/png' }, { data: 'AA==', mimeType: 'image/jpeg' }));
+
+    expect(artifacts.map(mediaFileName)).toEqual(['act_1-0.png', 'act_1-1.jpg']);
+  });
+});
+
+describe('saveSessionMedia', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write every media artifact to disk', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jules-media-'));
+    const large = Buffer.concat([PNG, Buffer.alloc(200 * 1024, 7)]);
+    const client = {
+      iterateActivities: () => new Paginator<Activity>(async () => ({
+        items: [mediaActivity('act1', { data: large.toString('base64'), mimeType: 'image/png' })],
+      })),
+    };
+
+    const saved = await saveSessionMedia(client, 'sess1', path.join(dir, 'out'));
+
+    expect(saved).toEqual([{ activityId: 'act1', index: 0, path: path.join(dir, 'out', 'act1-0.png'), mimeType: 'image/png', bytes: large.length }]);
+    expect(fs.readFileSync(saved[0].path)).toEqual(large);
+  });
+
+  it('should not leave a file behind when validation fails', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jules-media-'));
+    const client = {
+      iterateActivities: () => new Paginator<Activity>(async () => ({
+        items: [mediaActivity('act1', { data: JPEG.toString('base64'), mimeType: 'image/png' })],
+      })),
+    };
+
+    await expect(saveSessionMedia(client, 'sess1', dir)).rejects.toBeInstanceOf(MediaValidationError);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JulesClient } from '../src/client';
+import { NotFoundError, UnavailableError } from '../src/errors';
+import type { Middleware } from '../src/middleware';
+import type { HttpResponse } from '../src/http';
+import type { TransportResponse } from '../src/transports';
+
+const source = { name: 'sources/github/owner/repo', id: 'github/owner/repo' };
+
+function transportReturning(...responses: TransportResponse[]) {
+  let call = 0;
+  return { request: vi.fn(async () => responses[Math.min(call++, responses.length - 1)]) };
+}
+
+const ok = (data: unknown): TransportResponse => ({ status: 200, headers: {}, body: JSON.stringify(data) });
+
+describe('middleware', () => {
+  it('should run outermost first and unwind in reverse', async () => {
+    const order: string[] = [];
+    const tag = (name: string): Middleware => async (request, next) => {
+      order.push(`${name}:request`);
+      const response = await next(request);
+      order.push(`${name}:response`);
+      return response;
+    };
+    const client = new JulesClient({ apiKey: 'test-key', transport: transportReturning(ok(source)), middleware: [tag('a')] });
+    client.use(tag('b')).use(tag('c'));
+
+    await client.getSource('github/owner/repo');
+
+    expect(order).toEqual(['a:request', 'b:request', 'c:request', 'c:response', 'b:response', 'a:response']);
+  });
+
+  it('should send headers added to the request', async () => {
+    const transport = transportReturning(ok(source));
+    const client = new JulesClient({ apiKey: 'test-key', transport }).use((request, next) =>
+      next({ ...request, headers: { ...request.headers, 'X-Request-Id': 'req-1' } })
+    );
+
+    await client.getSource('github/owner/repo');
+
+    expect(transport.request.mock.calls[0]).toEqual([
+      expect.objectContaining({
+        headers: { 'X-Goog-Api-Key': 'test-key', 'Content-Type': 'application/json', 'X-Request-Id': 'req-1' },
+      }),
+    ]);
+  });
+
+  it('should short-circuit and validate the returned response', async () => {
+    const transport = transportReturning(ok(source));
+    const cache = new Map<string, HttpResponse>();
+    const client = new JulesClient({ apiKey: 'test-key', transport }).use(async (request, next) => {
+      const cached = cache.get(request.url);
+      if (cached) return cached;
+      const response = await next(request);
+      cache.set(request.url, response);
+      return response;
+    });
+
+    await client.getSource('github/owner/repo');
+    expect(await client.getSource('github/owner/repo')).toEqual(source);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+
+    cache.set('/sources/broken', { status: 200, headers: {}, data: { id: 42 } });
+    await expect(client.getSource('broken')).rejects.toThrow();
+  });
+
+  it('should see typed errors after retries and may recover from them', async () => {
+    const notFound = { status: 404, headers: {}, body: '' };
+    const unavailable = { status: 503, headers: {}, body: '' };
+    const seen: unknown[] = [];
+    const client = new JulesClient({
+      apiKey: 'test-key',
+      transport: transportReturning(unavailable, unavailable, notFound),
+      retryConfig: { maxRetries: 1, initialDelayMs: 1 },
+    }).use(async (request, next) => {
+      try {
+        return await next(request);
+      } catch (error) {
+        seen.push(error);
+        if (error instanceof NotFoundError) {
+          return { status: 200, headers: {}, data: { sources: [] } };
+        }
+        throw error;
+      }
+    });
+
+    await expect(client.getSource('github/owner/repo')).rejects.toBeInstanceOf(UnavailableError);
+    expect(await client.listSources()).toEqual({ sources: [] });
+    expect(seen).toEqual([expect.any(UnavailableError), expect.any(NotFoundError)]);
+  });
+});
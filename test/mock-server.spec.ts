@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as path from 'path';
+import { JulesClient } from '../src/client';
+import { createMockJulesServer } from '../src/testing';
+import { NotFoundError, RateLimitedError, UnavailableError, UnauthenticatedError } from '../src/errors';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'mock-server.json');
+
+describe('createMockJulesServer', () => {
+  const server = createMockJulesServer({ apiKey: 'test-key', defaultPageSize: 2 });
+  const client = new JulesClient({ apiKey: 'test-key', retryConfig: { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 5 } });
+
+  beforeAll(() => server.listen());
+  afterAll(() => server.close());
+  beforeEach(() => {
+    server.reset();
+    server.loadFixtures(FIXTURES);
+  });
+
+  it('should serve fixtures with pagination', async () => {
+    const first = await client.listSources();
+    expect(first.sources).toHaveLength(2);
+    expect(first.nextPageToken).toBeDefined();
+
+    const sources = await client.iterateSources().toArray();
+    expect(sources.map(s => s.id)).toEqual(['github/owner/repo', 'github/owner/other', 'github/owner/third']);
+    expect(await client.getSource('github/owner/other')).toMatchObject({ name: 'sources/github/owner/other' });
+
+    const filtered = await client.listSources(undefined, undefined, 'name=sources/github/owner/third');
+    expect(filtered.sources!.map(s => s.id)).toEqual(['github/owner/third']);
+  });
+
+  it('should progress a scripted session and wait for the client', async () => {
+    expect((await client.getSession('42')).state).toBe('AWAITING_USER_FEEDBACK');
+    expect((await client.getSession('42')).state).toBe('AWAITING_USER_FEEDBACK'); // Held until sendMessage
+
+    await client.sendMessage('42', 'Fix it instead');
+    expect((await client.getSession('42')).state).toBe('COMPLETED');
+
+    const activities = await client.iterateActivities('42').toArray();
+    expect(activities.map(a => a.kind)).toEqual(['progressUpdated', 'agentMessaged', 'userMessaged', 'sessionCompleted']);
+  });
+
+  it('should run a created session through plan approval', async () => {
+    const result = await client.runSession(
+      { prompt: 'Add a README', sourceContext: { source: 'sources/github/owner/repo' }, requirePlanApproval: true, automationMode: 'AUTO_CREATE_PR' },
+      {},
+      { minIntervalMs: 1, maxIntervalMs: 2 }
+    );
+
+    expect(result.session.state).toBe('COMPLETED');
+    expect(result.activities.map(a => a.kind)).toContain('planApproved');
+    expect(result.pullRequest?.url).toBe('https://github.com/mock/repo/pull/1');
+    expect(server.requests.filter(r => r.path.endsWith(':approvePlan'))).toHaveLength(1);
+  });
+
+  it('should inject errors', async () => {
+    server.injectError({ status: 503, path: 'sessions/42', times: 2 });
+    expect((await client.getSession('42')).id).toBe('42'); // Retried past both failures
+
+    server.injectError({ status: 429, headers: { 'Retry-After': '7' } });
+    const error = await new JulesClient({ apiKey: 'test-key' }).getSession('42').catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.retryAfterMs).toBe(7000);
+
+    server.injectError({ status: 503, method: 'GET', path: /^sources/, times: 3 });
+    await expect(client.listSources()).rejects.toBeInstanceOf(UnavailableError);
+  });
+
+  it('should reject unknown resources and API keys', async () => {
+    await expect(client.getSession('missing')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(new JulesClient({ apiKey: 'wrong' }).listSessions()).rejects.toBeInstanceOf(UnauthenticatedError);
+  });
+
+  it('should answer malformed JSON bodies with INVALID_ARGUMENT', async () => {
+    const response = await fetch('https://jules.googleapis.com/v1alpha/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Goog-Api-Key': 'test-key' },
+      body: '{"prompt": ',
+    });
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as { error: unknown }).error).toMatchObject({ code: 400, status: 'INVALID_ARGUMENT' });
+    expect(server.requests[server.requests.length - 1]).toEqual({ method: 'POST', path: 'sessions', params: {} });
+  });
+});
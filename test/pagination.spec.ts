@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Paginator, Page } from '../src/pagination';
+import { AbortError } from '../src/errors';
+
+function pagedFetcher(pages: Record<string, Page<number>>) {
+  return vi.fn(async (_pageSize: number | undefined, pageToken: string | undefined) => pages[pageToken ?? 'first']);
+}
+
+const PAGES: Record<string, Page<number>> = {
+  first: { items: [1, 2], nextPageToken: 'p2' },
+  p2: { items: [3, 4], nextPageToken: 'p3' },
+  p3: { items: [5] },
+};
+
+describe('Paginator', () => {
+  it('should follow page tokens until the last page', async () => {
+    const fetchPage = pagedFetcher(PAGES);
+    const items = await new Paginator(fetchPage).toArray();
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(fetchPage.mock.calls.map(call => call[1])).toEqual([undefined, 'p2', 'p3']);
+  });
+
+  it('should iterate whole pages', async () => {
+    const pages: number[][] = [];
+    for await (const page of new Paginator(pagedFetcher(PAGES), { pageToken: 'p2' }).pages()) {
+      pages.push(page.items);
+    }
+
+    expect(pages).toEqual([[3, 4], [5]]);
+  });
+
+  it('should stop fetching once maxItems is reached', async () => {
+    const fetchPage = pagedFetcher(PAGES);
+    const items = await new Paginator(fetchPage, { pageSize: 2, maxItems: 3 }).toArray();
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    // Second request only asks for the one remaining item
+    expect(fetchPage).toHaveBeenLastCalledWith(1, 'p2');
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetchPage = pagedFetcher(PAGES);
+    const seen: number[] = [];
+
+    const iterate = async () => {
+      for await (const item of new Paginator(fetchPage, { signal: controller.signal })) {
+        seen.push(item);
+        if (item === 2) controller.abort();
+      }
+    };
+
+    await expect(iterate()).rejects.toBeInstanceOf(AbortError);
+    expect(seen).toEqual([1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseUnidiff, formatUnidiff } from '../src/unidiff';
+import { collectChangeSets, combineChangeSets, applySessionPatch } from '../src/patches';
+import { Paginator } from '../src/pagination';
+import { ChangeSetBaseMismatchError, PatchApplyError } from '../src/errors';
+import type { Activity } from '../src/types';
+
+const README_PATCH = `diff --git a/README.md b/README.md
+index 3b18e51..a0b7c8d 100644
+--- a/README.md
++++ b/README.md
+@@ -1,2 +1,3 @@
+ # Demo
+-hello
++hello world
++--- not a header
+`;
+
+const NEW_FILE_PATCH = `diff --git a/src/app.ts b/src/app.ts
+new file mode 100644
+index 0000000..e69de29
+--- /dev/null
++++ b/src/app.ts
+@@ -0,0 +1 @@
++export const app = 1;
+`;
+
+const RENAME_PATCH = `diff --git a/README.md b/docs/README.md
+similarity index 80%
+rename from README.md
+rename to docs/README.md
+index 3b18e51..a0b7c8d 100644
+--- a/README.md
++++ b/docs/README.md
+@@ -1,2 +1,3 @@
+ # Demo
+-hello
++hello world
++more
+`;
+
+function changeSetActivity(id: string, unidiffPatch: string, baseCommitId: string): Activity {
+  return {
+    name: `sessions/sess1/activities/${id}`,
+    id,
+    createTime: '2025-10-17T10:00:00Z',
+    originator: 'agent',
+    kind: 'progressUpdated',
+    progressUpdated: { title: 'Changes' },
+    artifacts: [
+      { changeSet: { source: 'sources/github/owner/repo', gitPatch: { unidiffPatch, baseCommitId, suggestedCommitMessage: `Changes from ${id}` } } },
+      { bashOutput: { command: 'npm test', exitCode: 0 } },
+    ],
+  };
+}
+
+describe('parseUnidiff', () => {
+  it('should split files and hunks', () => {
+    const files = parseUnidiff(README_PATCH + NEW_FILE_PATCH);
+
+    expect(files).toHaveLength(2);
+    expect(files[0]).toMatchObject({ oldPath: 'README.md', newPath: 'README.md' });
+    expect(files[0].hunks[0]).toMatchObject({ oldStart: 1, oldLines: 2, newStart: 1, newLines: 3 });
+    // Body lines are consumed by count, so "+--- ..." stays inside the hunk
+    expect(files[0].hunks[0].lines).toEqual([' # Demo', '-hello', '+hello world', '+--- not a header']);
+    expect(files[1]).toMatchObject({ oldPath: undefined, newPath: 'src/app.ts' });
+  });
+
+  it('should round-trip through formatUnidiff', () => {
+    expect(formatUnidiff(parseUnidiff(README_PATCH + NEW_FILE_PATCH))).toBe(README_PATCH + NEW_FILE_PATCH);
+  });
+});
+
+describe('collectChangeSets / combineChangeSets', () => {
+  it('should keep the latest patch of each file', async () => {
+    const client = {
+      iterateActivities: () => new Paginator<Activity>(async () => ({
+        items: [
+          changeSetActivity('act1', README_PATCH.replace('hello world', 'hello there'), 'base1'),
+          changeSetActivity('act2', README_PATCH + NEW_FILE_PATCH, 'base1'),
+        ],
+      })),
+    };
+
+    const changeSets = await collectChangeSets(client, 'sess1');
+    const combined = combineChangeSets('sess1', changeSets);
+
+    expect(changeSets.map(c => c.activityId)).toEqual(['act1', 'act2']);
+    expect(combined.patch).toBe(README_PATCH + NEW_FILE_PATCH);
+    expect(combined.baseCommitId).toBe('base1');
+    expect(combined.suggestedCommitMessage).toBe('Changes from act2');
+  });
+
+  it('should reject incremental change sets on different base commits', async () => {
+    const client = {
+      iterateActivities: () => new Paginator<Activity>(async () => ({
+        items: [
+          changeSetActivity('act1', README_PATCH, 'base1'),
+          changeSetActivity('act2', README_PATCH.replace('-hello\n', '-hello world\n').replace('+hello world\n', '+hello there\n'), 'base2'),
+        ],
+      })),
+    };
+
+    const changeSets = await collectChangeSets(client, 'sess1');
+
+    expect(() => combineChangeSets('sess1', changeSets)).toThrow(ChangeSetBaseMismatchError);
+    expect(() => combineChangeSets('sess1', changeSets)).toThrow(expect.objectContaining({ baseCommitIds: ['base1', 'base2'] }));
+  });
+});
+
+describe('applySessionPatch', () => {
+  let repo: string;
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf8' }).trim();
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'jules-patch-'));
+    git('init', '-q');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    fs.writeFileSync(path.join(repo, 'README.md'), '# Demo\nhello\n');
+    git('add', '.');
+    git('commit', '-qm', 'Initial commit');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should apply at the base commit and commit with the suggested message', async () => {
+    const base = git('rev-parse', 'HEAD');
+    const changeSets = await collectChangeSets({
+      iterateActivities: () => new Paginator<Activity>(async () => ({ items: [changeSetActivity('act1', README_PATCH + NEW_FILE_PATCH, base)] })),
+    }, 'sess1');
+
+    const result = await applySessionPatch(combineChangeSets('sess1', changeSets), {
+      cwd: repo,
+      branch: 'jules/sess1',
+      commit: true,
+    });
+
+    expect(result.files).toEqual(['README.md', 'src/app.ts']);
+    expect(result.commitId).toBe(git('rev-parse', 'HEAD'));
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('jules/sess1');
+    expect(git('log', '-1', '--format=%s')).toBe('Changes from act1');
+    expect(fs.readFileSync(path.join(repo, 'src/app.ts'), 'utf8')).toBe('export const app = 1;\n');
+  });
+
+  it('should apply a rename combined with earlier and later patches of the renamed file', async () => {
+    const base = git('rev-parse', 'HEAD');
+    const combine = async (...patches: string[]) => combineChangeSets('sess1', await collectChangeSets({
+      iterateActivities: () => new Paginator<Activity>(async () => ({
+        items: patches.map((patch, index) => changeSetActivity(`act${index + 1}`, patch, base)),
+      })),
+    }, 'sess1'));
+
+    const renamed = await combine(README_PATCH, RENAME_PATCH);
+    const reverted = await combine(RENAME_PATCH, README_PATCH);
+
+    expect(renamed.files.map(file => [file.changeType, file.oldPath, file.newPath])).toEqual([['renamed', 'README.md', 'docs/README.md']]);
+    expect(reverted.files.map(file => [file.changeType, file.oldPath, file.newPath])).toEqual([['modified', 'README.md', 'README.md']]);
+    await applySessionPatch(renamed, { cwd: repo });
+    expect(fs.existsSync(path.join(repo, 'README.md'))).toBe(false);
+    expect(fs.readFileSync(path.join(repo, 'docs/README.md'), 'utf8')).toBe('# Demo\nhello world\nmore\n');
+  });
+
+  it('should reject patches that do not apply', async () => {
+    fs.writeFileSync(path.join(repo, 'README.md'), 'something else\n');
+    const patch = combineChangeSets('sess1', await collectChangeSets({
+      iterateActivities: () => new Paginator<Activity>(async () => ({ items: [changeSetActivity('act1', README_PATCH, 'base')] })),
+    }, 'sess1'));
+
+    await expect(applySessionPatch(patch, { cwd: repo })).rejects.toBeInstanceOf(PatchApplyError);
+  });
+});
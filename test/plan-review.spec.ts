@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { reviewPlan, getLatestPlan, createPathGuardPolicy, Plan } from '../src/plan-review';
+import { Paginator } from '../src/pagination';
+import { PlanApprovalNotConfirmedError, PlanNotFoundError } from '../src/errors';
+import type { Activity } from '../src/types';
+
+function activity(id: string, content: Partial<Activity>): Activity {
+  return {
+    name: `sessions/sess1/activities/${id}`,
+    id,
+    createTime: '2025-10-17T10:00:00Z',
+    originator: 'agent',
+    ...content,
+  } as Activity;
+}
+
+function planActivity(id: string, planId: string): Activity {
+  return activity(id, {
+    planGenerated: {
+      plan: {
+        id: planId,
+        steps: [
+          { id: 's2', title: 'Update config', description: 'Edit infra/terraform/main.tf', index: 1 },
+          { id: 's1', title: 'Add tests', description: 'Cover src/utils.ts', index: 0 },
+        ],
+      },
+    },
+  });
+}
+
+function fakeClient(...snapshots: Activity[][]) {
+  let call = 0;
+  return {
+    iterateActivities: vi.fn(() => {
+      const items = snapshots[Math.min(call++, snapshots.length - 1)];
+      return new Paginator<Activity>(async () => ({ items }));
+    }),
+    approvePlan: vi.fn(async () => undefined),
+    sendMessage: vi.fn(async () => undefined),
+  };
+}
+
+describe('getLatestPlan', () => {
+  it('should return the most recent plan with steps sorted by index', async () => {
+    const client = fakeClient([planActivity('act1', 'plan1'), planActivity('act2', 'plan2')]);
+
+    const plan = await getLatestPlan(client, 'sess1');
+
+    expect(plan).toMatchObject({ id: 'plan2', sessionId: 'sess1', activityId: 'act2' });
+    expect(plan!.steps.map(step => step.id)).toEqual(['s1', 's2']);
+  });
+});
+
+describe('reviewPlan', () => {
+  it('should approve and wait for the matching planApproved activity', async () => {
+    const plan = planActivity('act1', 'plan1');
+    const approved = activity('act2', { planApproved: { planId: 'plan1' } });
+    const client = fakeClient([plan], [plan], [plan, approved]);
+
+    const result = await reviewPlan(client, 'sess1', () => ({ action: 'approve' }), { pollIntervalMs: 1 });
+
+    expect(client.approvePlan).toHaveBeenCalledWith('sess1', { signal: undefined });
+    expect(result.approvalActivity?.id).toBe('act2');
+  });
+
+  it('should fail when approval is not confirmed in time', async () => {
+    const client = fakeClient([activity('act0', { planApproved: { planId: 'other' } }), planActivity('act1', 'plan1')]);
+
+    await expect(
+      reviewPlan(client, 'sess1', () => ({ action: 'approve' }), { pollIntervalMs: 1, confirmTimeoutMs: 10 })
+    ).rejects.toMatchObject({ planId: 'plan1', timeoutMs: 10, approvedPlanId: undefined });
+  });
+
+  it('should fail right away when another plan is approved after it', async () => {
+    const plan = planActivity('act1', 'plan1');
+    const client = fakeClient([plan], [plan, planActivity('act2', 'plan2'), activity('act3', { planApproved: { planId: 'plan2' } })]);
+
+    const error = await reviewPlan(client, 'sess1', () => ({ action: 'approve' }), { pollIntervalMs: 1, confirmTimeoutMs: 60000 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(PlanApprovalNotConfirmedError);
+    expect(error).toMatchObject({ planId: 'plan1', approvedPlanId: 'plan2' });
+    expect(client.iterateActivities).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send feedback when the policy rejects the plan', async () => {
+    const client = fakeClient([planActivity('act1', 'plan1')]);
+
+    await reviewPlan(client, 'sess1', () => ({ action: 'reject', feedback: 'Do not touch infra' }));
+
+    expect(client.approvePlan).not.toHaveBeenCalled();
+    expect(client.sendMessage).toHaveBeenCalledWith('sess1', 'Do not touch infra', { signal: undefined });
+  });
+
+  it('should throw when no plan was generated', async () => {
+    const client = fakeClient([activity('act1', { progressUpdated: { title: 'Planning' } })]);
+
+    await expect(reviewPlan(client, 'sess1', () => ({ action: 'approve' }))).rejects.toBeInstanceOf(PlanNotFoundError);
+  });
+});
+
+describe('createPathGuardPolicy', () => {
+  const plan = (description: string): Plan => ({
+    id: 'plan1',
+    sessionId: 'sess1',
+    activityId: 'act1',
+    steps: [{ id: 's1', title: 'Step', description, index: 0 }],
+  });
+
+  it('should approve plans that do not mention protected paths', async () => {
+    const policy = createPathGuardPolicy({ protectedPaths: ['infra/', /\.github\/workflows/] });
+
+    expect(await policy(plan('Edit src/index.ts'))).toEqual({ action: 'approve' });
+  });
+
+  it('should defer or reject plans that mention protected paths', async () => {
+    const deferPolicy = createPathGuardPolicy({ protectedPaths: ['infra/'] });
+    const rejectPolicy = createPathGuardPolicy({ protectedPaths: [/\.github\/workflows/], onMatch: 'reject' });
+
+    expect(await deferPolicy(plan('Edit infra/main.tf'))).toMatchObject({ action: 'defer' });
+    expect(await rejectPolicy(plan('Update .github/workflows/ci.yml'))).toMatchObject({ action: 'reject' });
+  });
+
+  it('should match global and sticky regexes on every plan', async () => {
+    const policy = createPathGuardPolicy({ protectedPaths: [/infra\//g, /.*secrets/y] });
+
+    for (let i = 0; i < 3; i++) {
+      expect(await policy(plan('Edit infra/main.tf'))).toMatchObject({ action: 'defer' });
+      expect(await policy(plan('Rotate secrets'))).toMatchObject({ action: 'defer', reason: expect.stringContaining('/.*secrets/y') });
+    }
+  });
+});
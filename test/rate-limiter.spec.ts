@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RateLimiter } from '../src/rate-limiter';
+import { JulesClient } from '../src/client';
+import { AbortError } from '../src/errors';
+import type { TransportRequest } from '../src/transports';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should spend the burst immediately, then refill at the configured rate', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 2 });
+    const started: number[] = [];
+    const start = Date.now();
+
+    const runs = Array.from({ length: 4 }, () => limiter.schedule(async () => started.push(Date.now() - start)));
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(runs);
+
+    expect(started).toEqual([0, 0, 500, 1000]);
+  });
+
+  it('should cap concurrency and start waiting tasks by priority, FIFO within a priority', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const gate = deferred();
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+      if (name === 'first') await gate.promise;
+    };
+
+    const runs = [
+      limiter.schedule(task('first')),
+      limiter.schedule(task('poll-1'), { priority: 'low' }),
+      limiter.schedule(task('normal')),
+      limiter.schedule(task('poll-2'), { priority: 'low' }),
+      limiter.schedule(task('interactive'), { priority: 'high' }),
+    ];
+    await Promise.resolve();
+    expect(limiter.running).toBe(1);
+    expect(limiter.pending).toBe(4);
+
+    gate.resolve();
+    await Promise.all(runs);
+
+    expect(order).toEqual(['first', 'interactive', 'normal', 'poll-1', 'poll-2']);
+  });
+
+  it('should drop queued tasks whose signal aborts', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const gate = deferred();
+    const controller = new AbortController();
+    const skipped = vi.fn(async () => undefined);
+
+    const running = limiter.schedule(() => gate.promise);
+    const queued = limiter.schedule(skipped, { signal: controller.signal });
+    controller.abort();
+    gate.resolve();
+
+    await expect(queued).rejects.toBeInstanceOf(AbortError);
+    await running;
+    expect(skipped).not.toHaveBeenCalled();
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow(RangeError);
+    expect(() => new RateLimiter({ maxConcurrent: -1 })).toThrow(RangeError);
+  });
+});
+
+describe('JulesClient rate limiting', () => {
+  const source = { name: 'sources/github/owner/repo', id: 'github/owner/repo' };
+
+  it('should share one limiter across clients and let interactive calls overtake polling', async () => {
+    const gate = deferred();
+    const order: string[] = [];
+    const transport = {
+      request: vi.fn(async (request: TransportRequest) => {
+        order.push(request.url.split('/').pop()!);
+        if (order.length === 1) await gate.promise;
+        return { status: 200, headers: {}, body: JSON.stringify({ ...source, id: request.url.split('/').pop() }) };
+      }),
+    };
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const a = new JulesClient({ apiKey: 'key-a', transport, rateLimit: limiter });
+    const b = new JulesClient({ apiKey: 'key-b', transport, rateLimit: limiter });
+
+    const calls = [
+      a.getSource('busy'),
+      a.withPriority('low').getSource('background'),
+      b.getSource('interactive'),
+    ];
+    await vi.waitFor(() => expect(limiter.pending).toBe(2));
+    gate.resolve();
+    await Promise.all(calls);
+
+    expect(order).toEqual(['busy', 'interactive', 'background']);
+  });
+});
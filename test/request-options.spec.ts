@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JulesClient } from '../src/client';
+import { AbortError, PlanNotFoundError, UnavailableError } from '../src/errors';
+import type { TransportRequest, TransportResponse } from '../src/transports';
+
+const source = { name: 'sources/github/owner/repo', id: 'github/owner/repo' };
+const unavailable: TransportResponse = { status: 503, headers: {}, body: '' };
+
+describe('per-call request options', () => {
+  let responses: TransportResponse[];
+  let transport: { request: ReturnType<typeof vi.fn> };
+  let client: JulesClient;
+
+  const lastRequest = (): TransportRequest => transport.request.mock.lastCall![0];
+
+  beforeEach(() => {
+    responses = [];
+    transport = {
+      request: vi.fn(async (_request: TransportRequest): Promise<TransportResponse> =>
+        responses.shift() ?? { status: 200, headers: {}, body: JSON.stringify(source) }
+      ),
+    };
+    client = new JulesClient({
+      apiKey: 'test-key',
+      transport,
+      timeout: 30000,
+      retryConfig: { maxRetries: 3, initialDelayMs: 10000 },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pass the signal and timeout to the transport', async () => {
+    const controller = new AbortController();
+
+    await client.getSource('github/owner/repo', { signal: controller.signal, timeout: 500 });
+
+    expect(lastRequest()).toMatchObject({ signal: controller.signal, timeout: 500 });
+    await client.getSource('github/owner/repo');
+    expect(lastRequest()).toMatchObject({ timeout: 30000 });
+    expect(lastRequest().signal).not.toBe(controller.signal);
+  });
+
+  it('should reject without sending when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.listSessions(10, undefined, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+
+  it('should stop immediately when aborted during a retry backoff', async () => {
+    vi.useFakeTimers();
+    responses = [unavailable, unavailable];
+    const controller = new AbortController();
+
+    const result = client.getSession('sess1', { signal: controller.signal }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+    controller.abort();
+
+    expect(await result).toBeInstanceOf(AbortError);
+    expect(vi.getTimerCount()).toBe(0);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should disable or override retries for one call', async () => {
+    vi.useFakeTimers();
+    responses = [unavailable, unavailable];
+    const error = await client.getSource('github/owner/repo', { retry: false }).catch(e => e);
+    expect(error).toBeInstanceOf(UnavailableError);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+
+    const result = client.getSource('github/owner/repo', { retry: { initialDelayMs: 1 } });
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(result).resolves.toEqual(source);
+    expect(transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should merge headers over the defaults', async () => {
+    await client.sendMessage('sess1', 'Hello', { headers: { 'X-Request-Id': 'abc' } });
+
+    expect(lastRequest().headers).toEqual({
+      'Content-Type': 'application/json',
+      'X-Goog-Api-Key': 'test-key',
+      'X-Request-Id': 'abc',
+    });
+  });
+
+  it('should override response validation for one call', async () => {
+    responses = [{ status: 200, headers: {}, body: JSON.stringify({ name: 'sources/x' }) }];
+    await expect(client.getSource('x')).rejects.toThrow('Response validation failed');
+
+    responses = [{ status: 200, headers: {}, body: JSON.stringify({ name: 'sources/x' }) }];
+    await expect(client.getSource('x', { validate: 'off' })).resolves.toEqual({ name: 'sources/x' });
+  });
+
+  it('should forward request options to every page request', async () => {
+    const controller = new AbortController();
+    responses = [
+      { status: 200, headers: {}, body: JSON.stringify({ sessions: [], nextPageToken: 'p2' }) },
+      { status: 200, headers: {}, body: JSON.stringify({ sessions: [] }) },
+    ];
+
+    await client.iterateSessions({ pageSize: 5, signal: controller.signal, timeout: 500, headers: { 'X-Trace': '1' } }).toArray();
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+    transport.request.mock.calls.forEach(([request]) => {
+      expect(request).toMatchObject({ signal: controller.signal, timeout: 500, headers: { 'X-Trace': '1' } });
+    });
+    expect(lastRequest().url).toContain('pageToken=p2');
+  });
+
+  it('should forward request options from the patch and plan helpers', async () => {
+    responses = [{ status: 200, headers: {}, body: JSON.stringify({ activities: [] }) }];
+
+    await client.getSessionDiffStats('sess1', { timeout: 750, headers: { 'X-Trace': '2' } });
+
+    expect(lastRequest()).toMatchObject({ timeout: 750, headers: { 'X-Trace': '2' } });
+  });
+
+  it('should forward request options from the polling, plan and export helpers', async () => {
+    const session = {
+      name: 'sessions/sess1',
+      id: 'sess1',
+      createTime: '2025-10-17T10:00:00Z',
+      updateTime: '2025-10-17T10:00:00Z',
+      state: 'COMPLETED',
+      url: 'https://jules.google.com/session/sess1',
+      prompt: 'Fix the bug',
+      sourceContext: { source: 'sources/github/owner/repo' },
+    };
+    transport.request.mockImplementation(async (request: TransportRequest): Promise<TransportResponse> => ({
+      status: 200,
+      headers: {},
+      body: JSON.stringify(request.url.includes('/activities') ? { activities: [] } : session),
+    }));
+    const requestOptions = { timeout: 750, headers: { 'X-Trace': '3' } };
+
+    await client.waitForCompletion('sess1', requestOptions);
+    for await (const _event of client.watchSession('sess1', requestOptions)) { /* runs until COMPLETED */ }
+    await client.exportSessionTranscript('sess1', 'json', requestOptions);
+    await client.saveSessionMedia('sess1', 'unused-media-dir', requestOptions);
+    await expect(client.reviewPlan('sess1', () => ({ action: 'approve' }), requestOptions)).rejects.toBeInstanceOf(PlanNotFoundError);
+
+    expect(transport.request).toHaveBeenCalledTimes(7);
+    transport.request.mock.calls.forEach(([request]) => {
+      expect(request).toMatchObject({ timeout: 750, headers: { 'X-Trace': '3' } });
+    });
+  });
+
+  it('should pass request options to each call of a batch', async () => {
+    await client.getSessions(['s1', 's2'], { concurrency: 1, timeout: 1234, validate: 'off' });
+
+    expect(transport.request.mock.calls.map(([request]) => request.timeout)).toEqual([1234, 1234]);
+  });
+});
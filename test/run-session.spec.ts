@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runSession } from '../src/run-session';
+import { SessionWatcher } from '../src/watcher';
+import { Paginator } from '../src/pagination';
+import { AbortError, SessionFailedError, WaitTimeoutError } from '../src/errors';
+import type { Activity, CreateSessionRequest, Session, SessionState } from '../src/types';
+
+function session(state: SessionState, extra: Partial<Session> = {}): Session {
+  return {
+    name: 'sessions/sess1',
+    id: 'sess1',
+    prompt: 'Test prompt',
+    sourceContext: { source: 'sources/github/owner/repo' },
+    state,
+    createTime: '2025-10-17T10:00:00Z',
+    updateTime: '2025-10-17T10:00:00Z',
+    url: 'https://jules.google.com/sessions/sess1',
+    ...extra,
+  };
+}
+
+function activity(id: string, content: Partial<Activity>): Activity {
+  return {
+    name: `sessions/sess1/activities/${id}`,
+    id,
+    createTime: '2025-10-17T10:00:00Z',
+    originator: 'agent',
+    ...content,
+  } as Activity;
+}
+
+/**
+ * Fake client replaying one (session, activities) snapshot per poll through a real SessionWatcher
+ */
+function scriptedClient(snapshots: Array<{ session: Session; activities: Activity[] }>) {
+  let poll = 0;
+  let current = snapshots[0];
+  const polled = {
+    getSession: async () => {
+      current = snapshots[Math.min(poll++, snapshots.length - 1)];
+      return current.session;
+    },
+    iterateActivities: (_sessionId: string, options?: { signal?: AbortSignal }) =>
+      new Paginator<Activity>(async () => ({ items: current.activities }), options),
+  };
+  return {
+    createSession: vi.fn(async () => session('QUEUED')),
+    watchSession: vi.fn((sessionId: string, options?: object) => new SessionWatcher(polled, sessionId, options)),
+    approvePlan: vi.fn(async () => undefined),
+    sendMessage: vi.fn(async (_sessionId: string, _prompt: string, _options?: { signal?: AbortSignal }) => undefined),
+  };
+}
+
+const request: CreateSessionRequest = {
+  prompt: 'Test prompt',
+  sourceContext: { source: 'sources/github/owner/repo' },
+  requirePlanApproval: true,
+};
+const plan = activity('act1', {
+  kind: 'planGenerated',
+  planGenerated: { plan: { id: 'plan1', steps: [{ id: 's1', title: 'Edit', description: 'Edit src/app.ts', index: 0 }] } },
+});
+const question = activity('act2', { kind: 'agentMessaged', agentMessaged: { agentMessage: 'Which Node version?' } });
+const done = activity('act3', {
+  kind: 'progressUpdated',
+  progressUpdated: { title: 'Done' },
+  artifacts: [{ bashOutput: { command: 'npm test', exitCode: 0 } }],
+});
+const pullRequest = { url: 'https://github.com/owner/repo/pull/1', title: 'Fix', description: 'Fixes it' };
+const options = { minIntervalMs: 1, maxIntervalMs: 2 };
+
+describe('runSession', () => {
+  it('should approve the plan, answer feedback and resolve with the outputs', async () => {
+    const client = scriptedClient([
+      { session: session('PLANNING'), activities: [] },
+      { session: session('AWAITING_PLAN_APPROVAL'), activities: [plan] },
+      { session: session('AWAITING_USER_FEEDBACK'), activities: [plan, question] },
+      { session: session('IN_PROGRESS'), activities: [plan, question, done] },
+      { session: session('COMPLETED', { outputs: [{ pullRequest }] }), activities: [plan, question, done] },
+    ]);
+    const onFeedback = vi.fn(() => 'Node 20');
+
+    const result = await runSession(client, request, { onFeedback }, options);
+
+    expect(client.approvePlan).toHaveBeenCalledTimes(1);
+    expect(onFeedback).toHaveBeenCalledWith(expect.objectContaining({ question: 'Which Node version?' }));
+    expect(client.sendMessage).toHaveBeenCalledWith('sess1', 'Node 20', { signal: expect.any(AbortSignal) });
+    expect(result.session.state).toBe('COMPLETED');
+    expect(result.activities.map(a => a.id)).toEqual(['act1', 'act2', 'act3']);
+    expect(result.artifacts).toEqual([{ bashOutput: { command: 'npm test', exitCode: 0 } }]);
+    expect(result.pullRequest).toEqual(pullRequest);
+  });
+
+  it('should delegate plan decisions to onPlan', async () => {
+    const client = scriptedClient([
+      { session: session('AWAITING_PLAN_APPROVAL'), activities: [plan] },
+      { session: session('COMPLETED'), activities: [plan] },
+    ]);
+    const onPlan = vi.fn(() => ({ action: 'reject' as const, feedback: 'Leave src/app.ts alone' }));
+
+    await runSession(client, request, { onPlan }, options);
+
+    expect(onPlan).toHaveBeenCalledWith(expect.objectContaining({ id: 'plan1', sessionId: 'sess1' }));
+    expect(client.approvePlan).not.toHaveBeenCalled();
+    expect(client.sendMessage).toHaveBeenCalledWith('sess1', 'Leave src/app.ts alone', { signal: expect.any(AbortSignal) });
+  });
+
+  it('should reject with SessionFailedError when the session fails', async () => {
+    const failed = activity('act9', { kind: 'sessionFailed', sessionFailed: { reason: 'Build broke' } });
+    const client = scriptedClient([{ session: session('FAILED'), activities: [failed] }]);
+
+    const error = await runSession(client, request, {}, options).catch(e => e);
+
+    expect(error).toBeInstanceOf(SessionFailedError);
+    expect(error.reason).toBe('Build broke');
+  });
+
+  it('should time out while the session keeps waiting', async () => {
+    const client = scriptedClient([{ session: session('IN_PROGRESS'), activities: [] }]);
+
+    await expect(runSession(client, request, {}, { ...options, timeoutMs: 20 })).rejects.toBeInstanceOf(WaitTimeoutError);
+  });
+
+  it('should time out while a reply is pending', async () => {
+    const client = scriptedClient([{ session: session('AWAITING_USER_FEEDBACK'), activities: [question] }]);
+    client.sendMessage.mockImplementation(async (_sessionId, _prompt, requestOptions) => {
+      if (requestOptions?.signal?.aborted) throw new AbortError();
+    });
+    const onFeedback = () => new Promise<string>(resolve => setTimeout(() => resolve('Node 20'), 50));
+
+    await expect(runSession(client, request, { onFeedback }, { ...options, timeoutMs: 20 })).rejects.toBeInstanceOf(WaitTimeoutError);
+  });
+
+  it('should answer further questions while the session keeps waiting for feedback', async () => {
+    const followUp = activity('act4', { kind: 'agentMessaged', agentMessaged: { agentMessage: 'And which npm?' } });
+    const client = scriptedClient([
+      { session: session('AWAITING_USER_FEEDBACK'), activities: [question] },
+      { session: session('AWAITING_USER_FEEDBACK'), activities: [question] },
+      { session: session('AWAITING_USER_FEEDBACK'), activities: [question, followUp] },
+      { session: session('COMPLETED'), activities: [question, followUp] },
+    ]);
+    const onFeedback = vi.fn(({ question }: { question?: string }) => (question === 'And which npm?' ? 'npm 10' : 'Node 20'));
+
+    await runSession(client, request, { onFeedback }, options);
+
+    expect(onFeedback).toHaveBeenCalledTimes(2);
+    expect(client.sendMessage.mock.calls.map(([, prompt]) => prompt)).toEqual(['Node 20', 'npm 10']);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics';
+import { JulesClient } from '../src/client';
+import { TELEMETRY_METRICS } from '../src/telemetry';
+import type { TransportRequest, TransportResponse } from '../src/transports';
+
+const session = {
+  name: 'sessions/sess1',
+  id: 'sess1',
+  createTime: '2025-10-17T10:00:00Z',
+  updateTime: '2025-10-17T10:00:00Z',
+  state: 'IN_PROGRESS',
+  url: 'https://jules.google.com/session/sess1',
+  prompt: 'Fix the bug',
+  sourceContext: { source: 'sources/github/owner/repo' },
+};
+
+const json = (status: number, data: unknown): TransportResponse => ({ status, headers: {}, body: JSON.stringify(data) });
+
+describe('telemetry', () => {
+  let spans: InMemorySpanExporter;
+  let metrics: InMemoryMetricExporter;
+  let reader: PeriodicExportingMetricReader;
+  let responses: TransportResponse[];
+  let sent: TransportRequest[];
+  let client: JulesClient;
+
+  beforeEach(() => {
+    spans = new InMemorySpanExporter();
+    metrics = new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE);
+    reader = new PeriodicExportingMetricReader({ exporter: metrics, exportIntervalMillis: 60_000 });
+    const tracerProvider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(spans)] });
+    const meterProvider = new MeterProvider({ readers: [reader] });
+
+    responses = [];
+    sent = [];
+    client = new JulesClient({
+      apiKey: 'test-key',
+      retryConfig: { maxRetries: 2, initialDelayMs: 1 },
+      transport: {
+        request: vi.fn(async (request: TransportRequest) => {
+          sent.push(request);
+          return responses.shift()!;
+        }),
+      },
+      telemetry: {
+        tracer: tracerProvider.getTracer('test'),
+        meter: meterProvider.getMeter('test'),
+        propagator: new W3CTraceContextPropagator(),
+      },
+    });
+  });
+
+  async function collectMetrics() {
+    await reader.forceFlush();
+    const exported = metrics.getMetrics();
+    const all = exported[exported.length - 1].scopeMetrics.flatMap(scope => scope.metrics);
+    return (name: string) => all.find(metric => metric.descriptor.name === name)?.dataPoints ?? [];
+  }
+
+  it('should create a client span per call with route, status, retries and validation outcome', async () => {
+    responses.push(json(503, {}), json(200, session));
+
+    await client.getSession('sess1');
+
+    const [span] = spans.getFinishedSpans();
+    expect(span.name).toBe('GET /sessions/{sessionId}');
+    expect(span.kind).toBe(SpanKind.CLIENT);
+    expect(span.attributes).toMatchObject({
+      'http.request.method': 'GET',
+      'http.route': '/sessions/{sessionId}',
+      'url.path': '/sessions/sess1',
+      'http.response.status_code': 200,
+      'http.request.resend_count': 1,
+      'jules.validation.outcome': 'valid',
+    });
+
+    // Every attempt carries the span's trace context
+    const traceparent = `00-${span.spanContext().traceId}-${span.spanContext().spanId}-01`;
+    expect(sent.map(request => request.headers.traceparent)).toEqual([traceparent, traceparent]);
+  });
+
+  it('should mark failed calls and count errors and retries', async () => {
+    responses.push(json(503, {}), json(503, {}), json(503, {}), json(200, { id: 42 }));
+
+    await expect(client.getSession('sess1')).rejects.toThrow();
+    await expect(client.getSession('sess1')).rejects.toThrow();
+
+    const [unavailable, invalid] = spans.getFinishedSpans();
+    expect(unavailable.status.code).toBe(SpanStatusCode.ERROR);
+    expect(unavailable.attributes).toMatchObject({ 'error.type': 'UNAVAILABLE', 'http.response.status_code': 503 });
+    expect(invalid.attributes).toMatchObject({ 'error.type': 'invalid_response', 'jules.validation.outcome': 'invalid' });
+
+    const points = await collectMetrics();
+    expect(points(TELEMETRY_METRICS.errors).map(p => [p.attributes['error.type'], p.value])).toEqual([
+      ['UNAVAILABLE', 1],
+      ['invalid_response', 1],
+    ]);
+    expect(points(TELEMETRY_METRICS.retries).map(p => p.value)).toEqual([2]);
+    expect(points(TELEMETRY_METRICS.duration)).toHaveLength(2);
+    expect(points(TELEMETRY_METRICS.duration)[0].attributes).toMatchObject({
+      'http.route': '/sessions/{sessionId}',
+      'http.response.status_code': 503,
+    });
+  });
+
+  it('should still coalesce concurrent identical calls when trace headers are injected', async () => {
+    responses.push(json(200, session));
+
+    const [a, b] = await Promise.all([client.getSession('sess1'), client.getSession('sess1')]);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].headers.traceparent).toBeDefined();
+    expect(b).toEqual(a);
+    expect(spans.getFinishedSpans()).toHaveLength(2);
+  });
+});
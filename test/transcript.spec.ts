@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { buildTranscript, exportSessionTranscript } from '../src/transcript';
+import { Paginator } from '../src/pagination';
+import { ActivitySchema } from '../src/schemas/activities';
+import type { Activity, RawActivity, Session } from '../src/types';
+
+const PATCH = `diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,2 +1,2 @@
+-const a = 1;
++const a = 2;
+ export { a };
+`;
+
+const session: Session = {
+  name: 'sessions/sess1',
+  id: 'sess1',
+  createTime: '2025-10-17T10:00:00Z',
+  updateTime: '2025-10-17T11:00:00Z',
+  state: 'COMPLETED',
+  url: 'https://jules.google.com/session/sess1',
+  prompt: 'Bump <a> to 2',
+  sourceContext: { source: 'sources/github/owner/repo' },
+  title: 'Bump a',
+  outputs: [{ pullRequest: { url: 'https://github.com/owner/repo/pull/7', title: 'Bump a', description: 'Sets a to 2' } }],
+};
+
+function activity(id: string, createTime: string, fields: Partial<RawActivity>): Activity {
+  return ActivitySchema.parse({ name: `sessions/sess1/activities/${id}`, id, createTime, originator: 'agent', ...fields });
+}
+
+// Deliberately out of order to check chronological sorting
+const activities: Activity[] = [
+  activity('act3', '2025-10-17T10:03:00Z', {
+    progressUpdated: { title: 'Ran tests' },
+    artifacts: [
+      { bashOutput: { command: 'npm test', output: '1 passing', exitCode: 0 } },
+      { changeSet: { source: 'sources/github/owner/repo', gitPatch: { unidiffPatch: PATCH, suggestedCommitMessage: 'Bump a' } } },
+    ],
+  }),
+  activity('act1', '2025-10-17T10:01:00Z', { originator: 'user', userMessaged: { userMessage: 'Please use <b>2</b>' } }),
+  activity('act2', '2025-10-17T10:02:00Z', {
+    planGenerated: { plan: { id: 'plan1', steps: [{ id: 's2', index: 1, title: 'Test', description: 'Run tests' }, { id: 's1', index: 0, title: 'Edit', description: 'Change a' }] } },
+  }),
+  activity('act4', '2025-10-17T10:04:00Z', { sessionCompleted: {} }),
+];
+
+const client = {
+  getSession: async () => session,
+  iterateActivities: () => new Paginator<Activity>(async () => ({ items: activities })),
+};
+
+describe('buildTranscript', () => {
+  it('should order entries chronologically and normalize artifacts', () => {
+    const transcript = buildTranscript(session, activities);
+
+    expect(transcript.entries.map(entry => entry.type)).toEqual(['userMessage', 'plan', 'progress', 'sessionCompleted']);
+    expect(transcript.entries[1]).toMatchObject({ planId: 'plan1', steps: [{ title: 'Edit' }, { title: 'Test' }] });
+    expect(transcript.entries[2].artifacts).toEqual([
+      { type: 'bashOutput', command: 'npm test', output: '1 passing', exitCode: 0 },
+      expect.objectContaining({ type: 'diff', suggestedCommitMessage: 'Bump a', stats: expect.objectContaining({ additions: 1, deletions: 1 }) }),
+    ]);
+    expect(transcript.pullRequests).toEqual([session.outputs![0].pullRequest]);
+  });
+
+  it('should order timestamps of mixed precision by time, keeping API order on ties', () => {
+    const progress = (id: string, createTime: string) => activity(id, createTime, { progressUpdated: { title: id } });
+    const transcript = buildTranscript(session, [
+      progress('later', '2025-10-17T10:00:00.5Z'),
+      progress('first', '2025-10-17T10:00:00Z'),
+      progress('nanos', '2025-10-17T10:00:00.123456789Z'),
+      progress('tie', '2025-10-17T10:00:00.000Z'),
+    ]);
+
+    expect(transcript.entries.map(entry => entry.type === 'progress' && entry.title)).toEqual(['first', 'tie', 'nanos', 'later']);
+  });
+});
+
+describe('exportSessionTranscript', () => {
+  it('should render Markdown', async () => {
+    const markdown = await exportSessionTranscript(client, 'sess1', 'markdown');
+
+    expect(markdown).toContain('# Bump a');
+    expect(markdown).toContain('1. **Edit** — Change a\n2. **Test** — Run tests');
+    expect(markdown).toContain('**Command (exit code 0)**');
+    expect(markdown).toContain('$ npm test\n1 passing');
+    expect(markdown).toContain('```diff\n' + PATCH);
+    expect(markdown).toContain('### [Bump a](https://github.com/owner/repo/pull/7)');
+    expect(markdown.indexOf('### User')).toBeLessThan(markdown.indexOf('### Plan'));
+  });
+
+  it('should render standalone HTML with escaped content', async () => {
+    const html = await exportSessionTranscript(client, 'sess1', 'html');
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('Please use &lt;b&gt;2&lt;/b&gt;');
+    expect(html).toContain('<span class="del">-const a = 1;</span>');
+    expect(html).toContain('<span class="exit ok">exit 0</span>');
+    expect(html).not.toContain('<b>2</b>');
+  });
+
+  it('should render a JSON document that round-trips', async () => {
+    const json = JSON.parse(await exportSessionTranscript(client, 'sess1', 'json'));
+
+    expect(json).toEqual(JSON.parse(JSON.stringify(buildTranscript(session, activities))));
+    expect(json.session).toMatchObject({ id: 'sess1', state: 'COMPLETED', source: 'sources/github/owner/repo' });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRequire } from 'module';
+import { JulesClient } from '../src/client';
+
+// Counts static imports of axios; the lazy require() in AxiosTransport is caught through the require cache
+const imported = vi.hoisted(() => ({ axios: 0 }));
+vi.mock('axios', () => {
+  imported.axios += 1;
+  return {};
+});
+
+function requiredAxiosModules(): string[] {
+  return Object.keys(createRequire(__filename).cache).filter(file => /[\\/]node_modules[\\/]axios[\\/]/.test(file));
+}
+
+describe('transport loading', () => {
+  it('should not load axios when the fetch transport is used', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ name: 'sources/x', id: 'x' }), { status: 200 }));
+    const { FetchTransport } = await import('../src/transports');
+    const client = new JulesClient({ apiKey: 'test-key', transport: new FetchTransport({ fetch }) });
+    const shorthand = new JulesClient({ apiKey: 'test-key', transport: 'fetch' });
+
+    await client.getSource('x');
+
+    expect(shorthand).toBeInstanceOf(JulesClient);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(imported.axios).toBe(0);
+    expect(requiredAxiosModules()).toEqual([]);
+  });
+});
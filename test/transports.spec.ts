@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import * as path from 'path';
+import { JulesClient } from '../src/client';
+import { createMockJulesServer } from '../src/testing';
+import { AxiosTransport, FetchTransport } from '../src/transports';
+import { AbortError, DeadlineExceededError, NotFoundError, TransportError, UnavailableError } from '../src/errors';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'mock-server.json');
+
+describe.each(['axios', 'fetch'] as const)('%s transport', transport => {
+  const server = createMockJulesServer({ apiKey: 'test-key', defaultPageSize: 2 });
+  const client = new JulesClient({
+    apiKey: 'test-key',
+    transport,
+    retryConfig: { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 5 },
+  });
+
+  beforeAll(() => server.listen());
+  afterAll(() => server.close());
+  beforeEach(() => {
+    server.reset();
+    server.loadFixtures(FIXTURES);
+  });
+
+  it('should send authenticated requests with query parameters and JSON bodies', async () => {
+    const sources = await client.iterateSources().toArray();
+    expect(sources).toHaveLength(3);
+
+    const filtered = await client.listSources(undefined, undefined, 'name=sources/github/owner/third');
+    expect(filtered.sources!.map(s => s.id)).toEqual(['github/owner/third']);
+
+    await client.sendMessage('42', 'Fix it instead');
+    expect(server.requests[server.requests.length - 1]).toMatchObject({
+      method: 'POST',
+      path: 'sessions/42:sendMessage',
+      body: { prompt: 'Fix it instead' },
+    });
+  });
+
+  it('should map error responses to typed errors and retry the retryable ones', async () => {
+    await expect(client.getSession('missing')).rejects.toBeInstanceOf(NotFoundError);
+
+    server.injectError({ status: 503, times: 2 });
+    expect(await client.getSource('github/owner/repo')).toMatchObject({ id: 'github/owner/repo' });
+
+    server.injectError({ status: 503, times: 3 });
+    const error = await client.getSource('github/owner/repo').catch(e => e);
+    expect(error).toBeInstanceOf(UnavailableError);
+    expect(error.retryCount).toBe(2);
+  });
+});
+
+describe('FetchTransport', () => {
+  // Resolves only when aborted, like a request that never gets an answer
+  const hangingFetch = vi.fn((_url: unknown, init?: { signal?: AbortSignal }) =>
+    new Promise<never>((_, reject) => init!.signal!.addEventListener('abort', () => reject(new Error('aborted'))))
+  ) as unknown as typeof fetch;
+
+  it('should turn a timeout into DeadlineExceededError', async () => {
+    const client = new JulesClient({ apiKey: 'test-key', timeout: 5, transport: new FetchTransport({ fetch: hangingFetch }) });
+
+    const error = await client.getSession('42').catch(e => e);
+
+    expect(error).toBeInstanceOf(DeadlineExceededError);
+    expect(error.cause).toBeInstanceOf(TransportError);
+  });
+
+  it('should reject with AbortError when the caller aborts', async () => {
+    const controller = new AbortController();
+    const request = new FetchTransport({ fetch: hangingFetch }).request({
+      method: 'GET',
+      url: 'https://example.com/',
+      headers: {},
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(AbortError);
+  });
+});
+
+describe('AxiosTransport', () => {
+  it('should report network failures as TransportError', async () => {
+    const transport = new AxiosTransport();
+
+    const error = await transport.request({ method: 'GET', url: 'http://127.0.0.1:1/', headers: {} }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.reason).toBe('network');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseResponse, RESPONSE_SCHEMAS } from '../src/validation';
+
+const session = {
+  name: 'sessions/sess1',
+  id: 'sess1',
+  createTime: '2025-10-17T10:00:00Z',
+  updateTime: '2025-10-17T10:00:00Z',
+  state: 'IN_PROGRESS',
+  url: 'https://jules.google.com/session/sess1',
+  prompt: 'Fix the bug',
+  sourceContext: { source: 'sources/github/owner/repo', githubRepoContext: { startingBranch: 'main', pinned: true } },
+  labels: ['ci'],
+};
+
+const activities = {
+  activities: [
+    {
+      name: 'sessions/sess1/activities/act1',
+      id: 'act1',
+      createTime: '2025-10-17T10:00:00Z',
+      originator: 'agent',
+      agentMessaged: { agentMessage: 'Hello' },
+    },
+    {
+      name: 'sessions/sess1/activities/act2',
+      id: 'act2',
+      createTime: '2025-10-17T10:01:00Z',
+      originator: 'agent',
+      codeReviewed: { comments: 3 },
+    },
+  ],
+};
+
+function createLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('parseResponse', () => {
+  it('should reject unknown shapes in strict mode', () => {
+    expect(() => parseResponse(session, RESPONSE_SCHEMAS.session, 'strict')).toThrow(/Response validation failed/);
+    expect(() => parseResponse(activities, RESPONSE_SCHEMAS.listActivities, 'strict')).toThrow(/at least one content field/);
+  });
+
+  it('should preserve unknown fields and report them in lenient mode', () => {
+    const logger = createLogger();
+    const result = parseResponse(session, RESPONSE_SCHEMAS.session, 'lenient', logger, '/sessions/sess1');
+
+    expect(result).toEqual(session);
+    expect(logger.warn).toHaveBeenCalledWith('Response contains fields unknown to this SDK version', {
+      url: '/sessions/sess1',
+      fields: ['sourceContext.githubRepoContext.pinned', 'labels'],
+    });
+  });
+
+  it('should surface unknown activities with their raw payload in lenient mode', () => {
+    const logger = createLogger();
+    const result = parseResponse(activities, RESPONSE_SCHEMAS.listActivities, 'lenient', logger);
+
+    expect(result.activities!.map(activity => activity.kind)).toEqual(['agentMessaged', 'unknown']);
+    expect(result.activities![1]).toMatchObject({ kind: 'unknown', raw: activities.activities[1], codeReviewed: { comments: 3 } });
+    expect(logger.warn.mock.calls[0][1].fields).toEqual(['activities[1].codeReviewed']);
+  });
+
+  it('should accept and report enum values unknown to this SDK version in lenient mode', () => {
+    const logger = createLogger();
+    const sessions = {
+      sessions: [
+        { ...session },
+        { ...session, id: 'sess2', state: 'ARCHIVED', automationMode: 'AUTO_MERGE' },
+      ],
+    };
+
+    const result = parseResponse(sessions, RESPONSE_SCHEMAS.listSessions, 'lenient', logger);
+
+    expect(result.sessions!.map(s => [s.state, s.automationMode])).toEqual([
+      ['IN_PROGRESS', undefined],
+      ['STATE_UNSPECIFIED', 'AUTOMATION_MODE_UNSPECIFIED'],
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith('Response contains enum values unknown to this SDK version', {
+      url: undefined,
+      values: ['sessions[1].state: ARCHIVED', 'sessions[1].automationMode: AUTO_MERGE'],
+    });
+    expect(() => parseResponse(sessions, RESPONSE_SCHEMAS.listSessions, 'strict')).toThrow(/Response validation failed/);
+  });
+
+  it('should still reject missing required fields in lenient mode', () => {
+    const { id, ...withoutId } = session;
+    expect(() => parseResponse(withoutId, RESPONSE_SCHEMAS.session, 'lenient')).toThrow(/Response validation failed/);
+  });
+
+  it('should pass responses through when validation is off', () => {
+    const result = parseResponse(activities, RESPONSE_SCHEMAS.listActivities, 'off');
+
+    expect(result.activities!.map(activity => activity.kind)).toEqual(['agentMessaged', 'unknown']);
+    expect(parseResponse({ id: 42 }, RESPONSE_SCHEMAS.session, 'off')).toEqual({ id: 42 });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { waitForSessionState } from '../src/wait';
+import { Paginator } from '../src/pagination';
+import {
+  AbortError,
+  SessionFailedError,
+  UnexpectedSessionStateError,
+  WaitTimeoutError,
+} from '../src/errors';
+import type { Activity, RequestOptions, Session, SessionState } from '../src/types';
+
+function session(state: SessionState): Session {
+  return {
+    name: 'sessions/sess1',
+    id: 'sess1',
+    prompt: 'Test prompt',
+    sourceContext: { source: 'sources/github/owner/repo' },
+    state,
+    createTime: '2025-10-17T10:00:00Z',
+    updateTime: '2025-10-17T10:00:00Z',
+    url: 'https://jules.google.com/sessions/sess1',
+  };
+}
+
+function fakeClient(states: SessionState[], activities: Activity[] = []) {
+  let call = 0;
+  return {
+    getSession: vi.fn(async (_id: string, _options?: RequestOptions) => session(states[Math.min(call++, states.length - 1)])),
+    iterateActivities: vi.fn(() => new Paginator<Activity>(async () => ({ items: activities }))),
+  };
+}
+
+describe('waitForSessionState', () => {
+  it('should resolve once the session reaches a target state', async () => {
+    const client = fakeClient(['QUEUED', 'PLANNING', 'AWAITING_PLAN_APPROVAL']);
+
+    const result = await waitForSessionState(client, 'sess1', ['AWAITING_PLAN_APPROVAL', 'IN_PROGRESS'], { pollIntervalMs: 1 });
+
+    expect(result.state).toBe('AWAITING_PLAN_APPROVAL');
+    expect(client.getSession).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject with the reason from the latest sessionFailed activity', async () => {
+    const client = fakeClient(['IN_PROGRESS', 'FAILED'], [
+      {
+        name: 'sessions/sess1/activities/act1',
+        id: 'act1',
+        createTime: '2025-10-17T10:00:00Z',
+        originator: 'system',
+        kind: 'sessionFailed',
+        sessionFailed: { reason: 'Build failed' },
+      },
+    ]);
+
+    const error = await waitForSessionState(client, 'sess1', 'COMPLETED', { pollIntervalMs: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(SessionFailedError);
+    expect(error.reason).toBe('Build failed');
+    expect(error.session.state).toBe('FAILED');
+  });
+
+  it('should reject when the session ends in a different terminal state', async () => {
+    const client = fakeClient(['COMPLETED']);
+
+    await expect(waitForSessionState(client, 'sess1', 'AWAITING_USER_FEEDBACK'))
+      .rejects.toBeInstanceOf(UnexpectedSessionStateError);
+  });
+
+  it('should honour the overall timeout', async () => {
+    const client = fakeClient(['IN_PROGRESS']);
+
+    const error = await waitForSessionState(client, 'sess1', 'COMPLETED', { pollIntervalMs: 5, timeoutMs: 20 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(WaitTimeoutError);
+    expect(error.lastState).toBe('IN_PROGRESS');
+  });
+
+  it('should enforce the timeout on a request in flight', async () => {
+    const client = fakeClient(['IN_PROGRESS']);
+    client.getSession.mockImplementationOnce(async () => session('IN_PROGRESS'));
+    client.getSession.mockImplementation((_id, options) =>
+      new Promise((_resolve, reject) => options?.signal?.addEventListener('abort', () => reject(new AbortError())))
+    );
+
+    const error = await waitForSessionState(client, 'sess1', 'COMPLETED', { pollIntervalMs: 1, timeoutMs: 20 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(WaitTimeoutError);
+    expect(error.lastState).toBe('IN_PROGRESS');
+    expect(client.getSession).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop waiting when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const client = fakeClient(['IN_PROGRESS']);
+
+    const pending = waitForSessionState(client, 'sess1', 'COMPLETED', { pollIntervalMs: 10000, signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(client.getSession).toHaveBeenCalledWith('sess1', { signal: controller.signal });
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SessionWatcher, SessionWatchEvent } from '../src/watcher';
+import { Paginator } from '../src/pagination';
+import type { Activity, Session, SessionState } from '../src/types';
+
+function session(state: SessionState): Session {
+  return {
+    name: 'sessions/sess1',
+    id: 'sess1',
+    prompt: 'Test prompt',
+    sourceContext: { source: 'sources/github/owner/repo' },
+    state,
+    createTime: '2025-10-17T10:00:00Z',
+    updateTime: '2025-10-17T10:00:00Z',
+    url: 'https://jules.google.com/sessions/sess1',
+  };
+}
+
+function activity(id: string, content: Partial<Activity>): Activity {
+  return {
+    name: `sessions/sess1/activities/${id}`,
+    id,
+    createTime: '2025-10-17T10:00:00Z',
+    originator: 'agent',
+    ...content,
+  } as Activity;
+}
+
+/**
+ * Fake client replaying one (session, activities) snapshot per poll
+ */
+function scriptedClient(snapshots: Array<{ state: SessionState; activities: Activity[] }>) {
+  let poll = 0;
+  let current = snapshots[0];
+  return {
+    getSession: vi.fn(async () => {
+      current = snapshots[Math.min(poll++, snapshots.length - 1)];
+      return session(current.state);
+    }),
+    iterateActivities: vi.fn((_sessionId: string, options?: { signal?: AbortSignal }) =>
+      new Paginator<Activity>(async () => ({ items: current.activities }), options)
+    ),
+  };
+}
+
+const plan = activity('act1', {
+  planGenerated: { plan: { id: 'plan1', steps: [{ id: 's1', title: 'Step', description: 'Do it', index: 0 }] } },
+});
+const message = activity('act2', { agentMessaged: { agentMessage: 'Working on it' } });
+const completed = activity('act3', { sessionCompleted: {} });
+
+describe('SessionWatcher', () => {
+  it('should emit each activity once and stop on a terminal state', async () => {
+    const client = scriptedClient([
+      { state: 'PLANNING', activities: [plan] },
+      { state: 'IN_PROGRESS', activities: [plan, message] },
+      { state: 'IN_PROGRESS', activities: [plan, message] },
+      { state: 'COMPLETED', activities: [plan, message, completed] },
+    ]);
+    const watcher = new SessionWatcher(client, 'sess1', { minIntervalMs: 1, maxIntervalMs: 2 });
+
+    const events: SessionWatchEvent[] = [];
+    for await (const event of watcher) {
+      events.push(event);
+    }
+
+    expect(events.map(e => e.type)).toEqual([
+      'activity', 'planGenerated', 'stateChanged',
+      'activity', 'agentMessaged', 'stateChanged',
+      'activity', 'sessionCompleted', 'stateChanged',
+    ]);
+    expect(events.filter(e => e.type === 'stateChanged').map(e => (e as any).state))
+      .toEqual(['PLANNING', 'IN_PROGRESS', 'COMPLETED']);
+    expect(client.getSession).toHaveBeenCalledTimes(4);
+    expect(watcher.isStopped).toBe(true);
+  });
+
+  it('should emit typed events to listeners', async () => {
+    const client = scriptedClient([{ state: 'COMPLETED', activities: [plan, message, completed] }]);
+    const watcher = new SessionWatcher(client, 'sess1', { minIntervalMs: 1 });
+    const onPlan = vi.fn();
+    const onMessage = vi.fn();
+
+    watcher.on('planGenerated', event => onPlan(event.plan.id));
+    watcher.on('agentMessaged', event => onMessage(event.message));
+    await new Promise(resolve => watcher.once('end', resolve));
+
+    expect(onPlan).toHaveBeenCalledWith('plan1');
+    expect(onMessage).toHaveBeenCalledWith('Working on it');
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const client = scriptedClient([{ state: 'IN_PROGRESS', activities: [message] }]);
+    const watcher = new SessionWatcher(client, 'sess1', { minIntervalMs: 10000, signal: controller.signal });
+
+    const ended = new Promise(resolve => watcher.once('end', resolve));
+    watcher.once('stateChanged', () => controller.abort());
+    await ended;
+
+    expect(client.getSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('should surface polling errors to iterators', async () => {
+    const client = scriptedClient([{ state: 'IN_PROGRESS', activities: [] }]);
+    client.getSession.mockRejectedValueOnce(new Error('boom'));
+    const watcher = new SessionWatcher(client, 'sess1');
+
+    const iterate = async () => {
+      for await (const _event of watcher) { /* no events expected */ }
+    };
+
+    await expect(iterate()).rejects.toThrow('boom');
+  });
+
+  it('should remove its abort listener once it ends', async () => {
+    const controller = new AbortController();
+    const removeEventListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const client = scriptedClient([{ state: 'COMPLETED', activities: [completed] }]);
+    const watcher = new SessionWatcher(client, 'sess1', { signal: controller.signal });
+
+    await new Promise(resolve => watcher.once('end', resolve));
+
+    expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('should reject iterators created after a polling error', async () => {
+    const client = scriptedClient([{ state: 'IN_PROGRESS', activities: [] }]);
+    client.getSession.mockRejectedValueOnce(new Error('boom'));
+    const watcher = new SessionWatcher(client, 'sess1');
+    const ended = await new Promise(resolve => watcher.once('end', resolve));
+
+    expect(ended).toEqual(new Error('boom'));
+    await expect(watcher[Symbol.asyncIterator]().next()).rejects.toThrow('boom');
+  });
+
+  it('should keep running for other consumers when one iterator returns', async () => {
+    const client = scriptedClient([
+      { state: 'IN_PROGRESS', activities: [plan] },
+      { state: 'COMPLETED', activities: [plan, completed] },
+    ]);
+    const watcher = new SessionWatcher(client, 'sess1', { minIntervalMs: 1 });
+
+    const first = async () => {
+      for await (const event of watcher) {
+        if (event.type === 'activity') break;
+      }
+    };
+    const second = async () => {
+      const types: string[] = [];
+      for await (const event of watcher) types.push(event.type);
+      return types;
+    };
+    const [, types] = await Promise.all([first(), second()]);
+
+    expect(types.filter(type => type === 'stateChanged')).toHaveLength(2);
+    expect(watcher.currentState).toBe('COMPLETED');
+  });
+
+  it('should resume reading activities at the last page seen', async () => {
+    const all = [plan, message, activity('act4', { progressUpdated: { title: 'Tests' } }), completed];
+    const counts = [2, 3, 4];
+    let poll = 0;
+    const tokens: Array<string | undefined> = [];
+    const client = {
+      getSession: vi.fn(async () => session(poll++ < counts.length - 1 ? 'IN_PROGRESS' : 'COMPLETED')),
+      iterateActivities: vi.fn((_sessionId: string, options?: { pageToken?: string; signal?: AbortSignal }) =>
+        new Paginator<Activity>(async (_pageSize, pageToken) => {
+          tokens.push(pageToken);
+          const visible = all.slice(0, counts[poll - 1]);
+          const offset = Number(pageToken ?? 0);
+          const end = offset + 2;
+          return { items: visible.slice(offset, end), nextPageToken: end < visible.length ? String(end) : undefined };
+        }, options)
+      ),
+    };
+
+    const ids: string[] = [];
+    for await (const event of new SessionWatcher(client, 'sess1', { minIntervalMs: 1 })) {
+      if (event.type === 'activity') ids.push(event.activity.id);
+    }
+
+    expect(ids).toEqual(['act1', 'act2', 'act4', 'act3']);
+    expect(tokens).toEqual([undefined, undefined, '2', '2']); // Later polls skip the first page
+  });
+});